@@ -0,0 +1,19 @@
+module.exports = class Data1667389921370 {
+  name = 'Data1667389921370'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "account_balance_snapshot" ("id" character varying NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "free" numeric NOT NULL, "reserved" numeric NOT NULL, "frozen" numeric NOT NULL, "total" numeric NOT NULL, "delta" numeric NOT NULL, "account_id" character varying, CONSTRAINT "PK_193110312b6169b798b119b96a0" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_56e3f4f929b35477ebb52b81e2" ON "account_balance_snapshot" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_ea7cc405e6be712d8dc3d91ee0" ON "account_balance_snapshot" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_b24ab5bdc68c9cdcec7e736d9b" ON "account_balance_snapshot" ("timestamp") `)
+    await db.query(`ALTER TABLE "account_balance_snapshot" ADD CONSTRAINT "FK_56e3f4f929b35477ebb52b81e2f" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "account_balance_snapshot"`)
+    await db.query(`DROP INDEX "public"."IDX_56e3f4f929b35477ebb52b81e2"`)
+    await db.query(`DROP INDEX "public"."IDX_ea7cc405e6be712d8dc3d91ee0"`)
+    await db.query(`DROP INDEX "public"."IDX_b24ab5bdc68c9cdcec7e736d9b"`)
+    await db.query(`ALTER TABLE "account_balance_snapshot" DROP CONSTRAINT "FK_56e3f4f929b35477ebb52b81e2f"`)
+  }
+}
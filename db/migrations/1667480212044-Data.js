@@ -0,0 +1,27 @@
+module.exports = class Data1667480212044 {
+  name = 'Data1667480212044'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "balance_event" ("id" character varying NOT NULL, "kind" character varying(18) NOT NULL, "amount" numeric NOT NULL, "reserved" numeric, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "event_index" integer NOT NULL, "extrinsic_hash" text, "account_id" character varying, "counterparty_id" character varying, CONSTRAINT "PK_0441ed630ab473892b49014afc4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_834ff4debd830c5a22ef990535" ON "balance_event" ("kind") `)
+    await db.query(`CREATE INDEX "IDX_926260c5aebc67dc0b3a677d36" ON "balance_event" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_45e080d6eb9c297eab0a46327e" ON "balance_event" ("counterparty_id") `)
+    await db.query(`CREATE INDEX "IDX_a7173c4b19c6d22ea2ae3ac30a" ON "balance_event" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_ad3250fe1fede87c15fd4638a1" ON "balance_event" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_3b6040139c4b15a5f45722c023" ON "balance_event" ("extrinsic_hash") `)
+    await db.query(`ALTER TABLE "balance_event" ADD CONSTRAINT "FK_926260c5aebc67dc0b3a677d363" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "balance_event" ADD CONSTRAINT "FK_45e080d6eb9c297eab0a46327ee" FOREIGN KEY ("counterparty_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "balance_event"`)
+    await db.query(`DROP INDEX "public"."IDX_834ff4debd830c5a22ef990535"`)
+    await db.query(`DROP INDEX "public"."IDX_926260c5aebc67dc0b3a677d36"`)
+    await db.query(`DROP INDEX "public"."IDX_45e080d6eb9c297eab0a46327e"`)
+    await db.query(`DROP INDEX "public"."IDX_a7173c4b19c6d22ea2ae3ac30a"`)
+    await db.query(`DROP INDEX "public"."IDX_ad3250fe1fede87c15fd4638a1"`)
+    await db.query(`DROP INDEX "public"."IDX_3b6040139c4b15a5f45722c023"`)
+    await db.query(`ALTER TABLE "balance_event" DROP CONSTRAINT "FK_926260c5aebc67dc0b3a677d363"`)
+    await db.query(`ALTER TABLE "balance_event" DROP CONSTRAINT "FK_45e080d6eb9c297eab0a46327ee"`)
+  }
+}
@@ -0,0 +1,30 @@
+module.exports = class Data1667571845326 {
+  name = 'Data1667571845326'
+
+  async up(db) {
+    // Existing rows get zeroes until the account is refreshed again
+    await db.query(`ALTER TABLE "account" ADD "misc_frozen" numeric NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "fee_frozen" numeric NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "transferable" numeric NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "nonce" integer NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "consumers" integer NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "providers" integer NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "sufficients" integer`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "misc_frozen" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "fee_frozen" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "transferable" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "nonce" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "consumers" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "providers" DROP DEFAULT`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account" DROP COLUMN "misc_frozen"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "fee_frozen"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "transferable"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "nonce"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "consumers"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "providers"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "sufficients"`)
+  }
+}
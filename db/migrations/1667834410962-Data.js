@@ -0,0 +1,19 @@
+module.exports = class Data1667834410962 {
+  name = 'Data1667834410962'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "balance_discrepancy" ("id" character varying NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "indexed_free" numeric, "indexed_reserved" numeric, "free" numeric NOT NULL, "reserved" numeric NOT NULL, "account_id" character varying, CONSTRAINT "PK_e66fe93c98cb836a51d09be6a14" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_ce0f61a4fa8e917f51704620e9" ON "balance_discrepancy" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_0ddbd0169fcbf6034c32ec0195" ON "balance_discrepancy" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_439fc96272b1bd4f6cdaac4dc2" ON "balance_discrepancy" ("timestamp") `)
+    await db.query(`ALTER TABLE "balance_discrepancy" ADD CONSTRAINT "FK_ce0f61a4fa8e917f51704620e9b" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "balance_discrepancy"`)
+    await db.query(`DROP INDEX "public"."IDX_ce0f61a4fa8e917f51704620e9"`)
+    await db.query(`DROP INDEX "public"."IDX_0ddbd0169fcbf6034c32ec0195"`)
+    await db.query(`DROP INDEX "public"."IDX_439fc96272b1bd4f6cdaac4dc2"`)
+    await db.query(`ALTER TABLE "balance_discrepancy" DROP CONSTRAINT "FK_ce0f61a4fa8e917f51704620e9b"`)
+  }
+}
@@ -0,0 +1,11 @@
+module.exports = class Data1667921347755 {
+  name = 'Data1667921347755'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "processor_state" ("id" character varying NOT NULL, "bootstrapped_at" integer, CONSTRAINT "PK_f0587d7b76132aa0cde1ecf146f" PRIMARY KEY ("id"))`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "processor_state"`)
+  }
+}
@@ -0,0 +1,17 @@
+module.exports = class Data1668017963258 {
+  name = 'Data1668017963258'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "undecoded_event" ("id" character varying NOT NULL, "name" text NOT NULL, "spec_id" text NOT NULL, "args" jsonb, "decoded" boolean NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "event_index" integer NOT NULL, "extrinsic_hash" text, CONSTRAINT "PK_7ae8c9ab7eacddcde5fd591e13b" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_5ba2476417940c76e91cfa6481" ON "undecoded_event" ("name") `)
+    await db.query(`CREATE INDEX "IDX_d4473d838988536a722ec7978c" ON "undecoded_event" ("spec_id") `)
+    await db.query(`CREATE INDEX "IDX_7d2fe8b5d86e696d0823601cfa" ON "undecoded_event" ("block_number") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "undecoded_event"`)
+    await db.query(`DROP INDEX "public"."IDX_5ba2476417940c76e91cfa6481"`)
+    await db.query(`DROP INDEX "public"."IDX_d4473d838988536a722ec7978c"`)
+    await db.query(`DROP INDEX "public"."IDX_7d2fe8b5d86e696d0823601cfa"`)
+  }
+}
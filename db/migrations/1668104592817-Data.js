@@ -0,0 +1,11 @@
+module.exports = class Data1668104592817 {
+  name = 'Data1668104592817'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "processor_state" ADD "network" text`)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "processor_state" DROP COLUMN "network"`)
+  }
+}
@@ -0,0 +1,17 @@
+module.exports = class Data1668193827416 {
+  name = 'Data1668193827416'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "chain_state_hourly" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "open_total_issuance" numeric NOT NULL, "close_total_issuance" numeric NOT NULL, "min_token_holders" integer NOT NULL, "max_token_holders" integer NOT NULL, "transfer_count" integer NOT NULL, "transfer_volume" numeric NOT NULL, "new_accounts" integer NOT NULL, CONSTRAINT "PK_c3113ecae6082c1041d708b1f1d" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_77565056a9f9c3306313dd00ee" ON "chain_state_hourly" ("timestamp") `)
+    await db.query(`CREATE TABLE "chain_state_daily" ("id" character varying NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "open_total_issuance" numeric NOT NULL, "close_total_issuance" numeric NOT NULL, "min_token_holders" integer NOT NULL, "max_token_holders" integer NOT NULL, "transfer_count" integer NOT NULL, "transfer_volume" numeric NOT NULL, "new_accounts" integer NOT NULL, CONSTRAINT "PK_d72dae294fc4f563e0bd5bff127" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_8623a5a9d7b9e21be452055a48" ON "chain_state_daily" ("timestamp") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "chain_state_hourly"`)
+    await db.query(`DROP INDEX "public"."IDX_77565056a9f9c3306313dd00ee"`)
+    await db.query(`DROP TABLE "chain_state_daily"`)
+    await db.query(`DROP INDEX "public"."IDX_8623a5a9d7b9e21be452055a48"`)
+  }
+}
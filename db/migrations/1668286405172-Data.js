@@ -0,0 +1,23 @@
+module.exports = class Data1668286405172 {
+  name = 'Data1668286405172'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "issuance_change" ("id" character varying NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "total_issuance" numeric NOT NULL, "delta" numeric NOT NULL, "minted" numeric NOT NULL, "burned" numeric NOT NULL, "mismatch" boolean NOT NULL, CONSTRAINT "PK_02168f83f82accdc8bf21af9edd" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_c0519deaef08ba912993bca52c" ON "issuance_change" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_99a43430751d826a877315972f" ON "issuance_change" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_2cc631d4f24f8b90641d168ff1" ON "issuance_change" ("mismatch") `)
+    await db.query(`ALTER TABLE "balance_event" ADD "issuance_change_id" character varying`)
+    await db.query(`CREATE INDEX "IDX_c60b23abe7316df7d46bf7b37a" ON "balance_event" ("issuance_change_id") `)
+    await db.query(`ALTER TABLE "balance_event" ADD CONSTRAINT "FK_c60b23abe7316df7d46bf7b37a1" FOREIGN KEY ("issuance_change_id") REFERENCES "issuance_change"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "issuance_change"`)
+    await db.query(`DROP INDEX "public"."IDX_c0519deaef08ba912993bca52c"`)
+    await db.query(`DROP INDEX "public"."IDX_99a43430751d826a877315972f"`)
+    await db.query(`DROP INDEX "public"."IDX_2cc631d4f24f8b90641d168ff1"`)
+    await db.query(`ALTER TABLE "balance_event" DROP COLUMN "issuance_change_id"`)
+    await db.query(`DROP INDEX "public"."IDX_c60b23abe7316df7d46bf7b37a"`)
+    await db.query(`ALTER TABLE "balance_event" DROP CONSTRAINT "FK_c60b23abe7316df7d46bf7b37a1"`)
+  }
+}
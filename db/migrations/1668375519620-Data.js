@@ -0,0 +1,29 @@
+module.exports = class Data1668375519620 {
+  name = 'Data1668375519620'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "reserve_movement" ("id" character varying NOT NULL, "kind" character varying(11) NOT NULL, "destination_status" character varying(8), "amount" numeric NOT NULL, "reserved_after" numeric NOT NULL, "destination_reserved_after" numeric, "reason" text, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "extrinsic_hash" text, "account_id" character varying, "destination_id" character varying, CONSTRAINT "PK_bed36c1b661b97e5bbe8e87d7e4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_33c2c367a9afdec490d8b86f9f" ON "reserve_movement" ("kind") `)
+    await db.query(`CREATE INDEX "IDX_ce84b425b7f6ac1cd485e3e034" ON "reserve_movement" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_e750ac68f9d0c6b9aa8b4e9693" ON "reserve_movement" ("destination_id") `)
+    await db.query(`CREATE INDEX "IDX_6a0e6a7e5691a3b834a243bff1" ON "reserve_movement" ("reason") `)
+    await db.query(`CREATE INDEX "IDX_eac51782519d0b9a892689f655" ON "reserve_movement" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_9a078de3d9fdf99110d4b6821a" ON "reserve_movement" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_9110a80b780dad9e14fb1b9521" ON "reserve_movement" ("extrinsic_hash") `)
+    await db.query(`ALTER TABLE "reserve_movement" ADD CONSTRAINT "FK_ce84b425b7f6ac1cd485e3e034b" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "reserve_movement" ADD CONSTRAINT "FK_e750ac68f9d0c6b9aa8b4e96939" FOREIGN KEY ("destination_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "reserve_movement"`)
+    await db.query(`DROP INDEX "public"."IDX_33c2c367a9afdec490d8b86f9f"`)
+    await db.query(`DROP INDEX "public"."IDX_ce84b425b7f6ac1cd485e3e034"`)
+    await db.query(`DROP INDEX "public"."IDX_e750ac68f9d0c6b9aa8b4e9693"`)
+    await db.query(`DROP INDEX "public"."IDX_6a0e6a7e5691a3b834a243bff1"`)
+    await db.query(`DROP INDEX "public"."IDX_eac51782519d0b9a892689f655"`)
+    await db.query(`DROP INDEX "public"."IDX_9a078de3d9fdf99110d4b6821a"`)
+    await db.query(`DROP INDEX "public"."IDX_9110a80b780dad9e14fb1b9521"`)
+    await db.query(`ALTER TABLE "reserve_movement" DROP CONSTRAINT "FK_ce84b425b7f6ac1cd485e3e034b"`)
+    await db.query(`ALTER TABLE "reserve_movement" DROP CONSTRAINT "FK_e750ac68f9d0c6b9aa8b4e96939"`)
+  }
+}
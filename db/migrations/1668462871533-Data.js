@@ -0,0 +1,39 @@
+module.exports = class Data1668462871533 {
+  name = 'Data1668462871533'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "slash" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "extrinsic_hash" text, "account_id" character varying, CONSTRAINT "PK_21170fe23f4bb830eaaff8bd4e9" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_11c194818d549fdd45eb5f4cbf" ON "slash" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_a5f351552e2281736fe929ff4f" ON "slash" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_becad7f3428a4a998381d9fc96" ON "slash" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_870249631facab51316526e589" ON "slash" ("extrinsic_hash") `)
+    await db.query(`CREATE TABLE "fee_withdrawal" ("id" character varying NOT NULL, "amount" numeric NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "extrinsic_hash" text, "account_id" character varying, CONSTRAINT "PK_43250748c6d85298d1bde579ba1" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_6759ea4097c12eb968585fef72" ON "fee_withdrawal" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_b214707e8fd9ae113a0b404b20" ON "fee_withdrawal" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_4f2f882457b981b0fa33b42227" ON "fee_withdrawal" ("timestamp") `)
+    await db.query(`CREATE INDEX "IDX_545c5e652438f0edcdfc1b1723" ON "fee_withdrawal" ("extrinsic_hash") `)
+    await db.query(`ALTER TABLE "account" ADD "total_slashed" numeric NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ADD "total_fees_paid" numeric NOT NULL DEFAULT 0`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "total_slashed" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "total_fees_paid" DROP DEFAULT`)
+    await db.query(`ALTER TABLE "slash" ADD CONSTRAINT "FK_11c194818d549fdd45eb5f4cbf4" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "fee_withdrawal" ADD CONSTRAINT "FK_6759ea4097c12eb968585fef72f" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "slash"`)
+    await db.query(`DROP INDEX "public"."IDX_11c194818d549fdd45eb5f4cbf"`)
+    await db.query(`DROP INDEX "public"."IDX_a5f351552e2281736fe929ff4f"`)
+    await db.query(`DROP INDEX "public"."IDX_becad7f3428a4a998381d9fc96"`)
+    await db.query(`DROP INDEX "public"."IDX_870249631facab51316526e589"`)
+    await db.query(`DROP TABLE "fee_withdrawal"`)
+    await db.query(`DROP INDEX "public"."IDX_6759ea4097c12eb968585fef72"`)
+    await db.query(`DROP INDEX "public"."IDX_b214707e8fd9ae113a0b404b20"`)
+    await db.query(`DROP INDEX "public"."IDX_4f2f882457b981b0fa33b42227"`)
+    await db.query(`DROP INDEX "public"."IDX_545c5e652438f0edcdfc1b1723"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "total_slashed"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "total_fees_paid"`)
+    await db.query(`ALTER TABLE "slash" DROP CONSTRAINT "FK_11c194818d549fdd45eb5f4cbf4"`)
+    await db.query(`ALTER TABLE "fee_withdrawal" DROP CONSTRAINT "FK_6759ea4097c12eb968585fef72f"`)
+  }
+}
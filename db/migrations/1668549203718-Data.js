@@ -0,0 +1,19 @@
+module.exports = class Data1668549203718 {
+  name = 'Data1668549203718'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "account" ADD "status" character varying(6) NOT NULL DEFAULT 'Active'`)
+    await db.query(`ALTER TABLE "account" ADD "created_at" integer`)
+    await db.query(`ALTER TABLE "account" ADD "reaped_at" integer`)
+    await db.query(`UPDATE "account" SET "status" = 'Reaped', "reaped_at" = "updated_at" WHERE "total" = 0`)
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "status" DROP DEFAULT`)
+    await db.query(`CREATE INDEX "IDX_90f9eafb4703666963ae861c26" ON "account" ("status") `)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account" DROP COLUMN "status"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "created_at"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "reaped_at"`)
+    await db.query(`DROP INDEX "public"."IDX_90f9eafb4703666963ae861c26"`)
+  }
+}
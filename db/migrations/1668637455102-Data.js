@@ -0,0 +1,35 @@
+module.exports = class Data1668637455102 {
+  name = 'Data1668637455102'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "holder_distribution" ("id" character varying NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, "holders" integer NOT NULL, "top10_share" numeric NOT NULL, "top100_share" numeric NOT NULL, "top1000_share" numeric NOT NULL, "gini" numeric NOT NULL, "brackets" jsonb NOT NULL, "chain_state_id" character varying NOT NULL, CONSTRAINT "REL_dedbf4e202c1401cf1b8118ab0" UNIQUE ("chain_state_id"), CONSTRAINT "PK_33564968577242521d0b105fb44" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE UNIQUE INDEX "IDX_dedbf4e202c1401cf1b8118ab0" ON "holder_distribution" ("chain_state_id") `)
+    await db.query(`CREATE INDEX "IDX_8258f27d94afdfe4ba32bb6d55" ON "holder_distribution" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_54c4683439e6ce89b88c19ff0d" ON "holder_distribution" ("timestamp") `)
+    await db.query(`CREATE TABLE "holder_rank" ("id" character varying NOT NULL, "rank" integer NOT NULL, "total" numeric NOT NULL, "block_number" integer NOT NULL, "distribution_id" character varying, "account_id" character varying, CONSTRAINT "PK_b8c9e9ac4eb97b0b58984c72451" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_88c242c1da94418a44754996de" ON "holder_rank" ("distribution_id") `)
+    await db.query(`CREATE INDEX "IDX_ac0023b3d9aea4f88a68a29329" ON "holder_rank" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_bcfc5f05201aa43bf5d9e62c1c" ON "holder_rank" ("block_number") `)
+    await db.query(`ALTER TABLE "account" ADD "rank" integer`)
+    await db.query(`CREATE INDEX "IDX_409b991b90a6afacb24135688f" ON "account" ("rank") `)
+    await db.query(`ALTER TABLE "holder_distribution" ADD CONSTRAINT "FK_dedbf4e202c1401cf1b8118ab01" FOREIGN KEY ("chain_state_id") REFERENCES "chain_state"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "holder_rank" ADD CONSTRAINT "FK_88c242c1da94418a44754996de3" FOREIGN KEY ("distribution_id") REFERENCES "holder_distribution"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+    await db.query(`ALTER TABLE "holder_rank" ADD CONSTRAINT "FK_ac0023b3d9aea4f88a68a293298" FOREIGN KEY ("account_id") REFERENCES "account"("id") ON DELETE NO ACTION ON UPDATE NO ACTION`)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "holder_distribution"`)
+    await db.query(`DROP INDEX "public"."IDX_dedbf4e202c1401cf1b8118ab0"`)
+    await db.query(`DROP INDEX "public"."IDX_8258f27d94afdfe4ba32bb6d55"`)
+    await db.query(`DROP INDEX "public"."IDX_54c4683439e6ce89b88c19ff0d"`)
+    await db.query(`DROP TABLE "holder_rank"`)
+    await db.query(`DROP INDEX "public"."IDX_88c242c1da94418a44754996de"`)
+    await db.query(`DROP INDEX "public"."IDX_ac0023b3d9aea4f88a68a29329"`)
+    await db.query(`DROP INDEX "public"."IDX_bcfc5f05201aa43bf5d9e62c1c"`)
+    await db.query(`ALTER TABLE "account" DROP COLUMN "rank"`)
+    await db.query(`DROP INDEX "public"."IDX_409b991b90a6afacb24135688f"`)
+    await db.query(`ALTER TABLE "holder_distribution" DROP CONSTRAINT "FK_dedbf4e202c1401cf1b8118ab01"`)
+    await db.query(`ALTER TABLE "holder_rank" DROP CONSTRAINT "FK_88c242c1da94418a44754996de3"`)
+    await db.query(`ALTER TABLE "holder_rank" DROP CONSTRAINT "FK_ac0023b3d9aea4f88a68a293298"`)
+  }
+}
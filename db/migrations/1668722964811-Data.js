@@ -0,0 +1,17 @@
+module.exports = class Data1668722964811 {
+  name = 'Data1668722964811'
+
+  async up(db) {
+    await db.query(`DROP INDEX "public"."IDX_56e3f4f929b35477ebb52b81e2"`)
+    await db.query(`DROP INDEX "public"."IDX_76bdfed1a7eb27c6d8ecbb7349"`)
+    await db.query(`CREATE INDEX "IDX_ff02cc1097a955fb418c15fd33" ON "account_balance_snapshot" ("account_id", "block_number") `)
+    await db.query(`CREATE INDEX "IDX_06de38afa77a56b475811b5431" ON "transfer" ("from_id", "to_id") `)
+  }
+
+  async down(db) {
+    await db.query(`CREATE INDEX "IDX_56e3f4f929b35477ebb52b81e2" ON "account_balance_snapshot" ("account_id") `)
+    await db.query(`CREATE INDEX "IDX_76bdfed1a7eb27c6d8ecbb7349" ON "transfer" ("from_id") `)
+    await db.query(`DROP INDEX "public"."IDX_ff02cc1097a955fb418c15fd33"`)
+    await db.query(`DROP INDEX "public"."IDX_06de38afa77a56b475811b5431"`)
+  }
+}
@@ -0,0 +1,20 @@
+const ss58 = require('@subsquid/ss58')
+
+module.exports = class Data1668809733256 {
+  name = 'Data1668809733256'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "account" ADD "public_key" text`)
+    // Existing ids are SS58 addresses, their keys are filled in from them
+    const ids = (await db.query(`SELECT "id" FROM "account"`)).map((a) => a.id)
+    const keys = ids.map((id) => '0x' + Buffer.from(ss58.decode(id).bytes).toString('hex'))
+    await db.query(`UPDATE "account" SET "public_key" = "key" FROM unnest($1::text[], $2::text[]) AS "k"("account_id", "key") WHERE "id" = "account_id"`, [ids, keys])
+    await db.query(`ALTER TABLE "account" ALTER COLUMN "public_key" SET NOT NULL`)
+    await db.query(`CREATE INDEX "IDX_34e5683537bbd7627b0e9469b8" ON "account" ("public_key") `)
+  }
+
+  async down(db) {
+    await db.query(`ALTER TABLE "account" DROP COLUMN "public_key"`)
+    await db.query(`DROP INDEX "public"."IDX_34e5683537bbd7627b0e9469b8"`)
+  }
+}
@@ -0,0 +1,14 @@
+module.exports = class Data1668896157384 {
+  name = 'Data1668896157384'
+
+  async up(db) {
+    await db.query(`ALTER TABLE "balance_discrepancy" ADD "source" character varying(14) NOT NULL DEFAULT 'Reconciliation'`)
+    await db.query(`ALTER TABLE "balance_discrepancy" ALTER COLUMN "source" DROP DEFAULT`)
+    await db.query(`CREATE INDEX "IDX_998670fa48630073a3fc580a52" ON "balance_discrepancy" ("source") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP INDEX "public"."IDX_998670fa48630073a3fc580a52"`)
+    await db.query(`ALTER TABLE "balance_discrepancy" DROP COLUMN "source"`)
+  }
+}
@@ -0,0 +1,15 @@
+module.exports = class Data1668982615293 {
+  name = 'Data1668982615293'
+
+  async up(db) {
+    await db.query(`CREATE TABLE "sent_alert" ("id" character varying NOT NULL, "rule" text NOT NULL, "message" text NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_26ed8bf9275bc8d45b7077f26d4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_a01bed6439408c32fc99d3fea5" ON "sent_alert" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_507f713b94ae41c7c7073fbfdf" ON "sent_alert" ("timestamp") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "sent_alert"`)
+    await db.query(`DROP INDEX "public"."IDX_a01bed6439408c32fc99d3fea5"`)
+    await db.query(`DROP INDEX "public"."IDX_507f713b94ae41c7c7073fbfdf"`)
+  }
+}
@@ -0,0 +1,23 @@
+module.exports = class Data1669068302475 {
+  name = 'Data1669068302475'
+
+  async up(db) {
+    await db.query(`DROP INDEX "public"."IDX_a01bed6439408c32fc99d3fea5"`)
+    await db.query(`DROP INDEX "public"."IDX_507f713b94ae41c7c7073fbfdf"`)
+    await db.query(`DROP TABLE "sent_alert"`)
+    await db.query(`CREATE TABLE "alert" ("id" character varying NOT NULL, "rule" text NOT NULL, "message" text NOT NULL, "body" text NOT NULL, "status" character varying(9) NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_ad91cad659a3536465d564a4b2f" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_0eaee3b3fe61eb74723fe719ce" ON "alert" ("status") `)
+    await db.query(`CREATE INDEX "IDX_db733696a7d872c103969b38d9" ON "alert" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_1425c319fed1b6466b5084254f" ON "alert" ("timestamp") `)
+  }
+
+  async down(db) {
+    await db.query(`DROP TABLE "alert"`)
+    await db.query(`DROP INDEX "public"."IDX_0eaee3b3fe61eb74723fe719ce"`)
+    await db.query(`DROP INDEX "public"."IDX_db733696a7d872c103969b38d9"`)
+    await db.query(`DROP INDEX "public"."IDX_1425c319fed1b6466b5084254f"`)
+    await db.query(`CREATE TABLE "sent_alert" ("id" character varying NOT NULL, "rule" text NOT NULL, "message" text NOT NULL, "block_number" integer NOT NULL, "timestamp" TIMESTAMP WITH TIME ZONE NOT NULL, CONSTRAINT "PK_26ed8bf9275bc8d45b7077f26d4" PRIMARY KEY ("id"))`)
+    await db.query(`CREATE INDEX "IDX_a01bed6439408c32fc99d3fea5" ON "sent_alert" ("block_number") `)
+    await db.query(`CREATE INDEX "IDX_507f713b94ae41c7c7073fbfdf" ON "sent_alert" ("timestamp") `)
+  }
+}
@@ -4,6 +4,8 @@ const { createClient } = require('graphql-ws');
 const port = process.env.GQL_PORT || 4350
 const host = process.env.GQL_HOST || 'localhost'
 const proto = process.env.GQL_PROTO || 'ws'
+// Comma separated addresses to watch the balances of
+const accounts = process.env.WATCH_ACCOUNTS ? process.env.WATCH_ACCOUNTS.split(',') : []
 
 
 const client = createClient({
@@ -11,32 +13,63 @@ const client = createClient({
   url: `${proto}://${host}:${port}/graphql`,
 });
 
-client.subscribe(
-  {
-    query: `
-    subscription {
-        transfers(limit: 5, orderBy: timestamp_DESC) {
-            amount
+function subscribe(name, query, variables) {
+  client.subscribe(
+    { query, variables },
+    {
+      next: (data) => {
+        console.log(`${name}: ${JSON.stringify(data)}`);
+      },
+      error: (error) => {
+        console.error('error', error);
+      },
+      complete: () => {
+        console.log('done!');
+      },
+    }
+  );
+}
+
+subscribe(
+  'New transfers',
+  `
+  subscription {
+      newTransfers {
+          amount
+          blockNumber
+          from
+          to
+      }
+  }
+  `
+);
+
+subscribe(
+  'New chain states',
+  `
+  subscription {
+      newChainStates {
+          blockNumber
+          totalIssuance
+          tokenHolders
+      }
+  }
+  `
+);
+
+if (accounts.length > 0) {
+  subscribe(
+    'Balance changes',
+    `
+    subscription($accounts: [String!]!) {
+        balanceChanges(accounts: $accounts) {
+            account
             blockNumber
-            from {
-              id
-            }
-            to {
-              id
-            }
+            free
+            reserved
         }
-    }  
+    }
     `,
-  },
-  {
-    next: (data) => {
-      console.log(`New transfers: ${JSON.stringify(data)}`);
-    },
-    error: (error) => {
-      console.error('error', error);
-    },
-    complete: () => {
-      console.log('done!');
-    },
-  }
-);
\ No newline at end of file
+    { accounts }
+  );
+}
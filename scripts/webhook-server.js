@@ -0,0 +1,28 @@
+const http = require('http')
+
+// Prints the alerts posted by the processor, for trying out ALERTS_CONFIG
+// with "webhooks": ["http://localhost:8080/alerts"]
+const port = process.env.WEBHOOK_PORT || 8080
+// Rejects every Nth request to exercise the processor's retries
+const failEvery = Number(process.env.WEBHOOK_FAIL_EVERY || 0)
+
+let received = 0
+
+http
+  .createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received++
+      if (failEvery && received % failEvery == 0) {
+        console.log(`Rejected request ${received}`)
+        res.writeHead(503).end()
+        return
+      }
+      console.log(`Alert: ${body}`)
+      res.writeHead(204).end()
+    })
+  })
+  .listen(port, () => {
+    console.log(`Listening for alerts on port ${port}`)
+  })
@@ -0,0 +1,248 @@
+import {
+  BatchContext,
+  SubstrateBlock,
+  decodeHex,
+  toHex,
+} from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In } from "typeorm";
+import { Account, AccountBalanceSnapshot, AccountStatus } from "./model";
+import { accountsReaped, accountsUpdated } from "./metrics";
+import { encodeId } from "./processor";
+import { queryInChunks } from "./storage";
+import { SystemAccountStorage } from "./types/generated/storage";
+import { Block } from "./types/generated/support";
+import * as v1 from "./types/generated/v1";
+
+/**
+ * Refreshes the given accounts from `System.Account` at `block`.
+ * `endowments` maps account ids to the block of their Balances.Endowed
+ * event, if the batch created them. Accounts in `derived` (by hex id) are
+ * saved with that balance instead of being queried.
+ */
+export async function saveAccounts(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock,
+  accountIds: Uint8Array[],
+  endowments?: Map<string, number>,
+  derived?: Map<string, Balance>
+) {
+  const queried = derived
+    ? accountIds.filter((id) => !derived.has(toHex(id)))
+    : accountIds;
+
+  const balances = await getBalances(ctx, block, queried);
+  if (!balances) {
+    ctx.log.warn("No balances");
+    return;
+  }
+
+  const queriedBalances = new Map(
+    queried.map((id, i) => [toHex(id), balances[i]])
+  );
+  await saveAccountBalances(
+    ctx,
+    block,
+    accountIds,
+    accountIds.map((id) => {
+      const hex = toHex(id);
+      return derived?.get(hex) ?? queriedBalances.get(hex);
+    }),
+    endowments
+  );
+}
+
+export async function saveAccountBalances(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock,
+  accountIds: Uint8Array[],
+  balances: (Balance | undefined)[],
+  endowments?: Map<string, number>
+) {
+  const ids = accountIds.map((id) => encodeId(id));
+  const previous = await ctx.store
+    .findBy(Account, { id: In(ids) })
+    .then((accounts) => new Map(accounts.map((a) => [a.id, a])));
+  // Bootstrap, reconciliation and spot checks can refresh an account at a
+  // block the batch itself has already snapshotted
+  const snapshotted = await ctx.store
+    .findBy(AccountBalanceSnapshot, {
+      id: In(ids.map((id) => `${id}-${block.height}`)),
+    })
+    .then((snapshots) => new Map(snapshots.map((s) => [s.id, s])));
+
+  const accounts = new Map<string, Account>();
+  const snapshots: AccountBalanceSnapshot[] = [];
+  let reaped = 0;
+
+  for (let i = 0; i < accountIds.length; i++) {
+    const id = ids[i];
+    const balance = balances[i];
+
+    if (!balance) continue;
+    const total = balance.free + balance.reserved;
+    const frozen = getFrozen(balance);
+    const before = previous.get(id);
+    const active = before?.status == AccountStatus.Active;
+
+    // Reaped accounts are kept with a zero balance, so their history and
+    // the transfers referencing them survive
+    let status = AccountStatus.Active;
+    let createdAt =
+      endowments?.get(id) ?? (active ? before.createdAt : block.height);
+    let reapedAt = before?.reapedAt;
+    if (total == 0n) {
+      status = AccountStatus.Reaped;
+      createdAt = endowments?.get(id) ?? before?.createdAt;
+      if (before?.status != AccountStatus.Reaped) reapedAt = block.height;
+      reaped++;
+    }
+
+    const account = new Account({
+      id,
+      publicKey: toHex(accountIds[i]),
+      free: balance.free,
+      reserved: balance.reserved,
+      total,
+      miscFrozen: balance.miscFrozen,
+      feeFrozen: balance.feeFrozen,
+      transferable: balance.free > frozen ? balance.free - frozen : 0n,
+      nonce: balance.nonce,
+      consumers: balance.consumers,
+      providers: balance.providers,
+      sufficients: balance.sufficients,
+      updatedAt: block.height,
+      status,
+      createdAt,
+      reapedAt,
+      // Ranks are only refreshed with the holder distribution
+      rank: before?.rank,
+      totalSlashed: before?.totalSlashed ?? 0n,
+      totalFeesPaid: before?.totalFeesPaid ?? 0n,
+    });
+    accounts.set(id, account);
+
+    // The delta of a snapshot that is saved again still starts from the
+    // balance before the block, the correction is added to it
+    const snapshotId = `${id}-${block.height}`;
+    const delta = total - (before?.total ?? 0n);
+    const saved = snapshotted.get(snapshotId);
+    snapshots.push(
+      new AccountBalanceSnapshot({
+        id: snapshotId,
+        account,
+        blockNumber: block.height,
+        timestamp: new Date(block.timestamp),
+        free: balance.free,
+        reserved: balance.reserved,
+        frozen,
+        total,
+        delta: saved ? saved.delta + delta : delta,
+      })
+    );
+  }
+
+  await ctx.store.save([...accounts.values()]);
+  await ctx.store.save(snapshots);
+
+  accountsUpdated.inc(accounts.size - reaped);
+  accountsReaped.inc(reaped);
+  ctx.log
+    .child("accounts")
+    .info(`updated: ${accounts.size - reaped}, reaped: ${reaped}`);
+}
+
+// twox128("System") ++ twox128("Account")
+const SYSTEM_ACCOUNT_PREFIX =
+  "0x26aa394eea5630e07c48ae0c9558cef7b99d880ec681799c0cf30e8886371da9";
+
+/**
+ * Pages through the ids of every account present in `System.Account`.
+ * The generated `getAll*` storage methods return values only, so the
+ * keys are listed directly.
+ */
+export async function* getSystemAccountIds(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock,
+  pageSize: number
+): AsyncGenerator<Uint8Array[]> {
+  let startKey = SYSTEM_ACCOUNT_PREFIX;
+  for (;;) {
+    const keys: string[] = await ctx._chain.client.call("state_getKeysPaged", [
+      SYSTEM_ACCOUNT_PREFIX,
+      pageSize,
+      startKey,
+      block.hash,
+    ]);
+    if (keys.length == 0) return;
+
+    // Keys are hashed with blake2_128_concat, so they end with the account id
+    yield keys.map((key) => decodeHex(key).subarray(-32));
+
+    if (keys.length < pageSize) return;
+    startKey = keys[keys.length - 1];
+  }
+}
+
+export interface Balance {
+  free: bigint;
+  reserved: bigint;
+  miscFrozen: bigint;
+  feeFrozen: bigint;
+  nonce: number;
+  consumers: number;
+  providers: number;
+  sufficients?: number;
+}
+
+export async function getBalances(
+  ctx: BatchContext<Store, unknown>,
+  block: Block,
+  accounts: Uint8Array[]
+): Promise<Balance[] | undefined> {
+  return await getSystemAccountBalances(ctx, block, accounts);
+}
+
+// Busy batches touch tens of thousands of accounts, which are queried in
+// chunks rather than in one request
+async function getSystemAccountBalances(
+  ctx: BatchContext<Store, unknown>,
+  block: Block,
+  accounts: Uint8Array[]
+) {
+  const storage = new SystemAccountStorage(ctx, block);
+  if (!storage.isExists) return undefined;
+
+  const log = ctx.log.child("storage");
+  if (storage.isV1) {
+    const data = await queryInChunks(log, "System.Account", accounts, (chunk) =>
+      storage.getManyAsV1(chunk)
+    );
+    return data.map((d) => getAccountInfoBalance(d));
+  } else {
+    const data = await queryInChunks(log, "System.Account", accounts, (chunk) =>
+      storage.getManyAsV3(chunk)
+    );
+    return data.map((d) => ({
+      ...getAccountInfoBalance(d),
+      sufficients: d.sufficients,
+    }));
+  }
+}
+
+function getAccountInfoBalance(info: v1.AccountInfo): Balance {
+  return {
+    free: info.data.free,
+    reserved: info.data.reserved,
+    miscFrozen: info.data.miscFrozen,
+    feeFrozen: info.data.feeFrozen,
+    nonce: info.nonce,
+    consumers: info.consumers,
+    providers: info.providers,
+  };
+}
+
+// The larger of the two locks is what can't be moved out of free balance
+export function getFrozen(data: { miscFrozen: bigint; feeFrozen: bigint }) {
+  return data.miscFrozen > data.feeFrozen ? data.miscFrozen : data.feeFrozen;
+}
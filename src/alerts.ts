@@ -0,0 +1,374 @@
+import { BatchContext, decodeHex } from "@subsquid/substrate-processor";
+import { Store, TypeormDatabase } from "@subsquid/typeorm-store";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import { In } from "typeorm";
+import { config, ConfigError } from "./config";
+import { Alert, AlertStatus, BalanceEventKind, IssuanceChange } from "./model";
+import { encodeId } from "./processor";
+
+export interface AlertRules {
+  webhooks: string[];
+  // Amounts are in whole tokens in the file, in the smallest unit here
+  transfer?: { minAmount: bigint };
+  slash?: { minAmount: bigint };
+  issuance?: { maxDelta?: bigint; onMismatch: boolean };
+}
+
+interface AlertEvent {
+  id: string;
+  kind: BalanceEventKind;
+  account: string;
+  counterparty?: string;
+  amount: bigint;
+  blockNumber: number;
+  timestamp: Date;
+  extrinsicHash?: string;
+}
+
+interface RaisedAlert {
+  id: string;
+  rule: "transfer" | "slash" | "issuance";
+  message: string;
+  blockNumber: number;
+  timestamp: Date;
+  extrinsicHash?: string;
+  data: Record<string, string | boolean | undefined>;
+}
+
+type Logger = BatchContext<Store, unknown>["log"];
+
+const MAX_ATTEMPTS = 5;
+const RETRY_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Pending alerts retried after each batch, oldest first
+const MAX_PENDING = 100;
+
+const rules = config.alertsFile ? loadAlertRules(config.alertsFile) : undefined;
+
+// Pending alerts of the batch being processed, delivered once it commits,
+// and the delivered alerts it marks
+let queue:
+  | { log: Logger; webhooks: string[]; alerts: Alert[]; marked: string[] }
+  | undefined;
+// Delivered alerts that no committed batch has marked as Delivered yet
+const delivered = new Set<string>();
+let delivering: Promise<void> | undefined;
+
+/**
+ * Raises an alert for large transfers, slashes and unexpected issuance
+ * changes of the batch, as configured in ALERTS_CONFIG. Archive data is
+ * finalized, so alerts can't be caused by reorgs.
+ *
+ * Alerts are saved as Pending `Alert`s with the batch and raised once, so
+ * restarts don't send them again. Every pending alert is queued for
+ * `deliverAlerts`, which posts them after the batch commits. Deliveries of
+ * earlier batches are marked as Delivered here, failed ones stay Pending
+ * and are queued again by the next batch.
+ */
+export async function sendAlerts(
+  ctx: BatchContext<Store, unknown>,
+  events: AlertEvent[],
+  issuanceChanges: Iterable<IssuanceChange>,
+  alertRules = rules
+) {
+  if (!alertRules) return;
+
+  const marked = [...delivered];
+  if (marked.length > 0) {
+    const done = await ctx.store.findBy(Alert, { id: In(marked) });
+    for (const alert of done) alert.status = AlertStatus.Delivered;
+    await ctx.store.save(done);
+  }
+
+  let raised = [
+    ...getEventAlerts(alertRules, events),
+    ...getIssuanceAlerts(alertRules, new Set(issuanceChanges)),
+  ];
+  if (raised.length > 0) {
+    const saved = await ctx.store
+      .findBy(Alert, { id: In(raised.map((alert) => alert.id)) })
+      .then((saved) => new Set(saved.map((alert) => alert.id)));
+    raised = raised.filter((alert) => !saved.has(alert.id));
+  }
+
+  await ctx.store.insert(
+    raised.map(
+      (alert) =>
+        new Alert({
+          id: alert.id,
+          rule: alert.rule,
+          message: alert.message,
+          body: JSON.stringify({ network: config.network, ...alert }),
+          status: AlertStatus.Pending,
+          blockNumber: alert.blockNumber,
+          timestamp: alert.timestamp,
+        })
+    )
+  );
+
+  const pending = await ctx.store.find(Alert, {
+    where: { status: AlertStatus.Pending },
+    order: { blockNumber: "ASC", id: "ASC" },
+    take: MAX_PENDING,
+  });
+  const log = ctx.log.child("alerts");
+  queue = { log, webhooks: alertRules.webhooks, alerts: pending, marked };
+  log.info(`raised: ${raised.length}, pending: ${pending.length}`);
+}
+
+/**
+ * Posts the alerts queued by the last batch to every webhook, retrying
+ * failed requests with backoff, unless an earlier delivery is still
+ * running. Call once the batch has committed.
+ */
+export function deliverAlerts(retryDelayMs = RETRY_DELAY_MS) {
+  const queued = queue;
+  queue = undefined;
+  if (!queued) return delivering;
+
+  queued.marked.forEach((id) => delivered.delete(id));
+  if (delivering) return delivering;
+
+  const { log, webhooks, alerts } = queued;
+  delivering = (async () => {
+    for (const alert of alerts) {
+      if (delivered.has(alert.id)) continue;
+      try {
+        for (const url of webhooks) {
+          await deliver(url, alert.body, retryDelayMs);
+        }
+        delivered.add(alert.id);
+      } catch (e) {
+        log.error(`alert ${alert.id} not delivered: ${e}`);
+      }
+    }
+  })().finally(() => (delivering = undefined));
+  return delivering;
+}
+
+/**
+ * The processor's database, which delivers the alerts of every batch once
+ * the batch has committed, and drops them when it fails to.
+ */
+export class AlertingDatabase extends TypeormDatabase {
+  async transact(
+    from: number,
+    to: number,
+    cb: (store: Store) => Promise<void>
+  ) {
+    try {
+      await super.transact(from, to, cb);
+    } catch (e) {
+      queue = undefined;
+      throw e;
+    }
+    deliverAlerts();
+  }
+}
+
+function getEventAlerts(rules: AlertRules, events: AlertEvent[]) {
+  const alerts: RaisedAlert[] = [];
+  for (const e of events) {
+    const account = encodeId(decodeHex(e.account));
+    const common = {
+      blockNumber: e.blockNumber,
+      timestamp: e.timestamp,
+      extrinsicHash: e.extrinsicHash,
+    };
+
+    if (
+      e.kind == BalanceEventKind.Transfer &&
+      rules.transfer &&
+      e.amount >= rules.transfer.minAmount
+    ) {
+      const to = encodeId(decodeHex(e.counterparty!));
+      alerts.push({
+        id: `transfer-${e.id}`,
+        rule: "transfer",
+        message: `${formatAmount(
+          e.amount
+        )} transferred from ${account} to ${to}`,
+        ...common,
+        data: { from: account, to, amount: e.amount.toString() },
+      });
+    } else if (
+      e.kind == BalanceEventKind.Slashed &&
+      rules.slash &&
+      e.amount >= rules.slash.minAmount
+    ) {
+      alerts.push({
+        id: `slash-${e.id}`,
+        rule: "slash",
+        message: `${account} slashed by ${formatAmount(e.amount)}`,
+        ...common,
+        data: { account, amount: e.amount.toString() },
+      });
+    }
+  }
+  return alerts;
+}
+
+function getIssuanceAlerts(rules: AlertRules, changes: Set<IssuanceChange>) {
+  const rule = rules.issuance;
+  if (!rule) return [];
+
+  const alerts: RaisedAlert[] = [];
+  for (const change of changes) {
+    const delta = change.delta < 0n ? -change.delta : change.delta;
+    const jumped = rule.maxDelta != null && delta > rule.maxDelta;
+    const mismatched = rule.onMismatch && change.mismatch;
+    if (!jumped && !mismatched) continue;
+
+    alerts.push({
+      id: `issuance-${change.id}`,
+      rule: "issuance",
+      message: mismatched
+        ? `Total issuance changed by ${formatAmount(
+            change.delta
+          )}, but mint and burn events add up to ${formatAmount(
+            change.minted - change.burned
+          )}`
+        : `Total issuance changed by ${formatAmount(change.delta)}`,
+      blockNumber: change.blockNumber,
+      timestamp: change.timestamp,
+      data: {
+        totalIssuance: change.totalIssuance.toString(),
+        delta: change.delta.toString(),
+        minted: change.minted.toString(),
+        burned: change.burned.toString(),
+        mismatch: change.mismatch,
+      },
+    });
+  }
+  return alerts;
+}
+
+async function deliver(url: string, body: string, retryDelayMs: number) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await postJson(url, body);
+      return;
+    } catch (e) {
+      if (attempt == MAX_ATTEMPTS) throw e;
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** (attempt - 1))
+      );
+    }
+  }
+}
+
+function postJson(url: string, body: string) {
+  const request = url.startsWith("https:") ? https.request : http.request;
+  return new Promise<void>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "content-length": Buffer.byteLength(body),
+        },
+        timeout: REQUEST_TIMEOUT_MS,
+      },
+      (res) => {
+        res.resume();
+        const status = res.statusCode ?? 0;
+        if (status >= 200 && status < 300) resolve();
+        else reject(new Error(`HTTP ${status}`));
+      }
+    );
+    req.on("timeout", () => req.destroy(new Error("request timed out")));
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function formatAmount(amount: bigint) {
+  const unit = 10n ** BigInt(config.decimals);
+  const sign = amount < 0n ? "-" : "";
+  const abs = amount < 0n ? -amount : amount;
+  const fraction = (abs % unit)
+    .toString()
+    .padStart(config.decimals, "0")
+    .replace(/0+$/, "");
+  return `${sign}${abs / unit}${fraction ? "." + fraction : ""}`;
+}
+
+/**
+ * Reads the webhooks and rules of an ALERTS_CONFIG file.
+ */
+export function loadAlertRules(file: string): AlertRules {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new ConfigError(`ALERTS_CONFIG ${file} can't be read: ${e}`);
+  }
+  if (!isObject(json)) {
+    throw new ConfigError(`${file}: must hold a JSON object`);
+  }
+
+  const webhooks = json.webhooks;
+  if (
+    !Array.isArray(webhooks) ||
+    webhooks.length == 0 ||
+    !webhooks.every(
+      (url): url is string => typeof url == "string" && /^https?:\/\//.test(url)
+    )
+  ) {
+    throw new ConfigError(`${file}: webhooks must be a list of HTTP URLs`);
+  }
+
+  const transfer = getRule(file, json, "transfer");
+  const slash = getRule(file, json, "slash");
+  const issuance = getRule(file, json, "issuance");
+  const onMismatch = issuance?.onMismatch ?? true;
+  if (typeof onMismatch != "boolean") {
+    throw new ConfigError(
+      `${file}: issuance.onMismatch must be true or false, got ${onMismatch}`
+    );
+  }
+
+  return {
+    webhooks,
+    transfer: transfer && {
+      minAmount: parseAmount(file, "transfer.minAmount", transfer.minAmount),
+    },
+    slash: slash && {
+      minAmount: parseAmount(file, "slash.minAmount", slash.minAmount ?? "0"),
+    },
+    issuance: issuance && {
+      maxDelta:
+        issuance.maxDelta == null
+          ? undefined
+          : parseAmount(file, "issuance.maxDelta", issuance.maxDelta),
+      onMismatch,
+    },
+  };
+}
+
+function getRule(file: string, json: Record<string, unknown>, name: string) {
+  const rule = json[name];
+  if (rule == null) return undefined;
+  if (!isObject(rule)) {
+    throw new ConfigError(`${file}: ${name} must be an object`);
+  }
+  return rule;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value == "object" && value != null && !Array.isArray(value);
+}
+
+function parseAmount(file: string, name: string, value: unknown) {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(String(value));
+  if (!match || (match[2]?.length ?? 0) > config.decimals) {
+    throw new ConfigError(
+      `${file}: ${name} must be a token amount, got ${value}`
+    );
+  }
+  const [, whole, fraction = ""] = match;
+  return BigInt(whole + fraction.padEnd(config.decimals, "0"));
+}
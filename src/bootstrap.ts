@@ -0,0 +1,51 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { getSystemAccountIds, saveAccounts } from "./accounts";
+import { getProcessorState } from "./processorState";
+
+const PAGE_SIZE = 1000;
+
+let bootstrapChecked = false;
+
+/**
+ * Loads every `System.Account` entry before the first block of the batch,
+ * so accounts funded before the start block and never touched afterwards
+ * are indexed too. Runs once per database, before any events are processed.
+ */
+export async function bootstrapIfNeeded(ctx: BatchContext<Store, unknown>) {
+  if (bootstrapChecked) return;
+
+  const state = await getProcessorState(ctx);
+  if (state.bootstrappedAt == null) {
+    state.bootstrappedAt = await bootstrapAccounts(ctx);
+    await ctx.store.save(state);
+  }
+
+  bootstrapChecked = true;
+}
+
+/**
+ * Saves the accounts at the parent of the first block of the batch and
+ * returns its height. The state of the first block already includes the
+ * events the batch is about to apply. The parent isn't part of the batch,
+ * its snapshots take the timestamp of the first block.
+ */
+export async function bootstrapAccounts(ctx: BatchContext<Store, unknown>) {
+  const first = ctx.blocks[0].header;
+  // The genesis block has no parent, nor any events
+  const block =
+    first.height == 0
+      ? first
+      : { ...first, height: first.height - 1, hash: first.parentHash };
+  let loaded = 0;
+
+  for await (const accountIds of getSystemAccountIds(ctx, block, PAGE_SIZE)) {
+    await saveAccounts(ctx, block, accountIds);
+    loaded += accountIds.length;
+  }
+
+  ctx.log
+    .child("bootstrap")
+    .info(`loaded ${loaded} accounts at block ${block.height}`);
+  return block.height;
+}
@@ -0,0 +1,75 @@
+import { BatchContext, decodeHex } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In } from "typeorm";
+import { Account, BalanceEventKind, FeeWithdrawal, Slash } from "./model";
+import { encodeId } from "./processor";
+
+interface BurnEvent {
+  id: string;
+  kind: BalanceEventKind;
+  account: string;
+  amount: bigint;
+  blockNumber: number;
+  timestamp: Date;
+  extrinsicHash?: string;
+}
+
+/**
+ * Records Slashed events as `Slash`es and Withdraw events as
+ * `FeeWithdrawal`s, and adds them to the per-account totals. Has to run
+ * after the batch refreshed the accounts, which carries the totals over.
+ */
+export async function saveSlashesAndFees(
+  ctx: BatchContext<Store, unknown>,
+  events: BurnEvent[]
+) {
+  const slashes: Slash[] = [];
+  const fees: FeeWithdrawal[] = [];
+  const totals = new Map<string, { slashed: bigint; fees: bigint }>();
+
+  for (const event of events) {
+    if (
+      event.kind != BalanceEventKind.Slashed &&
+      event.kind != BalanceEventKind.Withdraw
+    )
+      continue;
+
+    const id = encodeId(decodeHex(event.account));
+    const props = {
+      id: event.id,
+      account: new Account({ id }),
+      amount: event.amount,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      extrinsicHash: event.extrinsicHash,
+    };
+
+    const total = totals.get(id) ?? { slashed: 0n, fees: 0n };
+    if (event.kind == BalanceEventKind.Slashed) {
+      slashes.push(new Slash(props));
+      total.slashed += event.amount;
+    } else {
+      fees.push(new FeeWithdrawal(props));
+      total.fees += event.amount;
+    }
+    totals.set(id, total);
+  }
+  if (totals.size == 0) return;
+
+  const accounts = await ctx.store.findBy(Account, {
+    id: In([...totals.keys()]),
+  });
+  for (const account of accounts) {
+    const total = totals.get(account.id)!;
+    account.totalSlashed += total.slashed;
+    account.totalFeesPaid += total.fees;
+  }
+
+  await ctx.store.save(accounts);
+  await ctx.store.insert(slashes);
+  await ctx.store.insert(fees);
+
+  ctx.log
+    .child("burns")
+    .info(`slashes: ${slashes.length}, fee withdrawals: ${fees.length}`);
+}
@@ -1,6 +1,8 @@
 import { BatchContext, SubstrateBlock } from "@subsquid/substrate-processor";
 import { Store } from "@subsquid/typeorm-store";
-import { Account, ChainState } from "./model";
+import { config } from "./config";
+import { storageQueryDuration, unknownVersionErrors } from "./metrics";
+import { Account, AccountStatus, ChainState } from "./model";
 import { UnknownVersionError } from "./processor";
 import { BalancesTotalIssuanceStorage } from "./types/generated/storage";
 import { Block, ChainContext } from "./types/generated/support";
@@ -15,27 +17,117 @@ export async function getChainState(
   state.blockNumber = block.height;
   state.totalIssuance = (await getTotalIssuance(ctx, block)) || 0n;
 
-  state.tokenHolders = await ctx.store.count(Account);
+  state.tokenHolders = await ctx.store.countBy(Account, {
+    status: AccountStatus.Active,
+  });
 
   return state;
 }
 
+/**
+ * Saves the ChainState of each of the sampled `blocks`. Token holders are
+ * counted as indexed so far, as accounts are only refreshed per batch.
+ */
+export async function saveChainStates(
+  ctx: BatchContext<Store, unknown>,
+  blocks: SubstrateBlock[]
+) {
+  const states: ChainState[] = [];
+  for (const block of blocks) {
+    const state = await saveRegularChainState(ctx, block);
+    if (state) states.push(state);
+  }
+  return states;
+}
+
+let lastSampledInterval: number | undefined;
+
+/**
+ * Returns the blocks of the batch to sample ChainState at: the last one,
+ * or, when an interval is configured, every block that starts a new
+ * interval, so the series doesn't depend on how blocks are split into
+ * batches. Call once per batch, time intervals are tracked across batches.
+ */
+export async function getSampledBlocks(ctx: BatchContext<Store, unknown>) {
+  const headers = ctx.blocks.map((b) => b.header);
+
+  const blockInterval = config.chainStateBlockInterval;
+  if (blockInterval) {
+    return headers.filter((h) => h.height % blockInterval == 0);
+  }
+
+  const timeInterval = config.chainStateTimeInterval;
+  if (timeInterval) {
+    // After a restart, the last interval sampled is read back from the
+    // database, so the first block of each interval is sampled exactly once
+    if (lastSampledInterval == null) {
+      const last = await ctx.store.findOne(ChainState, {
+        where: {},
+        order: { blockNumber: "DESC" },
+      });
+      lastSampledInterval = last
+        ? Math.floor(last.timestamp.getTime() / timeInterval)
+        : -1;
+    }
+
+    const sampled: SubstrateBlock[] = [];
+    for (const header of headers) {
+      const interval = Math.floor(header.timestamp / timeInterval);
+      if (interval > lastSampledInterval) {
+        sampled.push(header);
+        lastSampledInterval = interval;
+      }
+    }
+    return sampled;
+  }
+
+  return [headers[headers.length - 1]];
+}
+
 export async function saveRegularChainState(
   ctx: BatchContext<Store, unknown>,
   block: SubstrateBlock
 ) {
-  const state = await getChainState(ctx, block);
+  let state: ChainState;
+  try {
+    state = await getChainState(ctx, block);
+  } catch (e) {
+    if (!(e instanceof UnknownVersionError)) throw e;
+    unknownVersionErrors.inc({ item: "Balances.TotalIssuance" });
+    if (config.unknownVersionPolicy == "strict") throw e;
+
+    ctx.log
+      .child("state")
+      .warn(`${e.message}, skipped at block ${block.height}`);
+    return;
+  }
   await ctx.store.insert(state);
 
   ctx.log.child("state").info(`updated at block ${block.height}`);
+  return state;
 }
 
-async function getTotalIssuance(ctx: ChainContext, block: Block) {
+export async function getTotalIssuance(ctx: ChainContext, block: Block) {
   const storage = new BalancesTotalIssuanceStorage(ctx, block);
   if (!storage.isExists) return undefined;
 
   if (storage.isV1) {
-    return await storage.getAsV1();
+    const timer = storageQueryDuration.startTimer({
+      item: "Balances.TotalIssuance",
+    });
+    const value = await storage.getAsV1();
+    timer();
+    return value;
+  }
+
+  if (config.unknownVersionPolicy == "decode") {
+    // Total issuance has always been a plain balance
+    const value = await ctx._chain.getStorage(
+      block.hash,
+      "Balances",
+      "TotalIssuance"
+    );
+    if (typeof value == "bigint") return value;
   }
 
   throw new UnknownVersionError(storage.constructor.name);
@@ -0,0 +1,217 @@
+import { lookupArchive } from "@subsquid/archive-registry";
+import * as ss58 from "@subsquid/ss58";
+import * as dotenv from "dotenv";
+import type { UnknownVersionPolicy } from "./unknownVersions";
+
+dotenv.config();
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(`Invalid configuration: ${message}`);
+  }
+}
+
+export interface Config {
+  network: string;
+  archive: string;
+  chain: string;
+  ss58Prefix: number;
+  // Decimals of the native token, for balance brackets
+  decimals: number;
+  startBlock: number;
+  // Number of blocks between full reconciliations, 0 disables them
+  reconcileInterval: number;
+  reconcileOnStart: boolean;
+  // ChainState is sampled at the end of every batch unless one of these is set
+  chainStateBlockInterval?: number;
+  chainStateTimeInterval?: number;
+  unknownVersionPolicy: UnknownVersionPolicy;
+  // JSON file with the alert webhooks and rules, alerts are off without it
+  alertsFile?: string;
+  // Accounts per System.Account query and queries running at once
+  storageChunkSize: number;
+  storageConcurrency: number;
+  // Compute balances of accounts that only moved funds in known ways from
+  // the events instead of querying storage for them
+  deriveBalancesFromEvents: boolean;
+  // Where balances come from, `events` only queries storage for spot checks
+  balanceSource: BalanceSource;
+  // Number of blocks between spot checks of event-sourced balances
+  spotCheckInterval: number;
+  // Port of the balance metrics endpoint, not served without it
+  metricsPort?: number;
+}
+
+export type BalanceSource = "storage" | "events";
+
+interface NetworkPreset {
+  archive?: () => string;
+  chain?: string;
+  ss58Prefix: string | number;
+  decimals: number;
+  startBlock: number;
+}
+
+const presets: Record<string, NetworkPreset> = {
+  calamari: {
+    // Lookup archive by the network name in the Subsquid registry
+    archive: () => lookupArchive("calamari", { release: "FireSquid" }),
+    chain: "wss://salad.calamari.systems",
+    ss58Prefix: "calamari",
+    decimals: 12,
+    // Decoding fails at 275_910-275_940, due to metadata V13, tranfers are only from multisig upgrade of wasm runtime (Not super important)
+    startBlock: 275_940,
+  },
+  // Not in the archive registry yet, ARCHIVE_URL has to be set
+  manta: {
+    chain: "wss://ws.manta.systems",
+    ss58Prefix: "manta",
+    decimals: 18,
+    startBlock: 0,
+  },
+  // Dev node with the archive from archive/docker-compose.yml
+  local: {
+    archive: () => "http://localhost:8888/graphql",
+    chain: "ws://localhost:9944",
+    ss58Prefix: "calamari",
+    decimals: 12,
+    startBlock: 0,
+  },
+};
+
+export const config = loadConfig(process.env);
+
+function loadConfig(env: NodeJS.ProcessEnv): Config {
+  const network = env.NETWORK || "calamari";
+  const preset = presets[network];
+  if (!preset) {
+    throw new ConfigError(
+      `unknown NETWORK ${network}, expected one of ${Object.keys(presets).join(
+        ", "
+      )}`
+    );
+  }
+
+  const archive = env.ARCHIVE_URL || preset.archive?.();
+  if (!archive) {
+    throw new ConfigError(`ARCHIVE_URL is required for ${network}`);
+  }
+  const chain = env.CHAIN_RPC || preset.chain;
+  if (!chain) {
+    throw new ConfigError(`CHAIN_RPC is required for ${network}`);
+  }
+
+  return {
+    network,
+    archive,
+    chain,
+    ss58Prefix: parseSs58Prefix(env.SS58_PREFIX ?? preset.ss58Prefix),
+    decimals: preset.decimals,
+    startBlock: parseCount("START_BLOCK", env.START_BLOCK) ?? preset.startBlock,
+    reconcileInterval:
+      parseCount("RECONCILE_INTERVAL", env.RECONCILE_INTERVAL) ?? 0,
+    reconcileOnStart: parseBoolean(
+      "RECONCILE_ON_START",
+      env.RECONCILE_ON_START
+    ),
+    ...parseChainStateInterval(env),
+    unknownVersionPolicy: parsePolicy(env.UNKNOWN_VERSION_POLICY),
+    alertsFile: env.ALERTS_CONFIG || undefined,
+    storageChunkSize: parseLimit(
+      "STORAGE_CHUNK_SIZE",
+      env.STORAGE_CHUNK_SIZE,
+      1000
+    ),
+    storageConcurrency: parseLimit(
+      "STORAGE_CONCURRENCY",
+      env.STORAGE_CONCURRENCY,
+      4
+    ),
+    deriveBalancesFromEvents: parseBoolean(
+      "DERIVE_BALANCES_FROM_EVENTS",
+      env.DERIVE_BALANCES_FROM_EVENTS
+    ),
+    balanceSource: parseBalanceSource(env.BALANCE_SOURCE),
+    spotCheckInterval:
+      parseCount("SPOT_CHECK_INTERVAL", env.SPOT_CHECK_INTERVAL) ?? 1000,
+    metricsPort: env.METRICS_PORT
+      ? parseLimit("METRICS_PORT", env.METRICS_PORT, 0)
+      : undefined,
+  };
+}
+
+function parseChainStateInterval(env: NodeJS.ProcessEnv) {
+  const blocks = parseCount(
+    "CHAIN_STATE_BLOCK_INTERVAL",
+    env.CHAIN_STATE_BLOCK_INTERVAL
+  );
+  const seconds = parseCount(
+    "CHAIN_STATE_TIME_INTERVAL",
+    env.CHAIN_STATE_TIME_INTERVAL,
+    "second"
+  );
+  if (blocks && seconds) {
+    throw new ConfigError(
+      "only one of CHAIN_STATE_BLOCK_INTERVAL and CHAIN_STATE_TIME_INTERVAL can be set"
+    );
+  }
+
+  return {
+    chainStateBlockInterval: blocks || undefined,
+    chainStateTimeInterval: seconds ? seconds * 1000 : undefined,
+  };
+}
+
+function parseSs58Prefix(value: string | number) {
+  const prefix = /^\d+$/.test(String(value)) ? Number(value) : value;
+  try {
+    return ss58.codec(prefix).prefix;
+  } catch (e) {
+    throw new ConfigError(
+      `SS58_PREFIX ${value} is not a known network or prefix`
+    );
+  }
+}
+
+function parseCount(name: string, value: string | undefined, unit = "block") {
+  if (!value) return undefined;
+
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < 0) {
+    throw new ConfigError(`${name} must be a ${unit} count, got ${value}`);
+  }
+  return count;
+}
+
+function parseLimit(name: string, value: string | undefined, fallback: number) {
+  const limit = Number(value || fallback);
+  if (!Number.isSafeInteger(limit) || limit < 1) {
+    throw new ConfigError(`${name} must be a positive number, got ${value}`);
+  }
+  return limit;
+}
+
+function parseBoolean(name: string, value: string | undefined) {
+  if (!value) return false;
+  if (value == "true" || value == "false") return value == "true";
+
+  throw new ConfigError(`${name} must be true or false, got ${value}`);
+}
+
+function parsePolicy(value: string | undefined): UnknownVersionPolicy {
+  if (!value) return "strict";
+  if (value == "strict" || value == "skip" || value == "decode") return value;
+
+  throw new ConfigError(
+    `UNKNOWN_VERSION_POLICY must be one of strict, skip or decode, got ${value}`
+  );
+}
+
+function parseBalanceSource(value: string | undefined): BalanceSource {
+  if (!value) return "storage";
+  if (value == "storage" || value == "events") return value;
+
+  throw new ConfigError(
+    `BALANCE_SOURCE must be storage or events, got ${value}`
+  );
+}
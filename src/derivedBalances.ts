@@ -0,0 +1,173 @@
+import { BatchContext, decodeHex } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In } from "typeorm";
+import { Balance } from "./accounts";
+import {
+  Account,
+  AccountStatus,
+  BalanceEventKind,
+  BalanceStatus,
+} from "./model";
+import { encodeId } from "./processor";
+
+export interface DerivableEvent {
+  kind: BalanceEventKind;
+  account: string;
+  counterparty?: string;
+  amount: bigint;
+  reserved?: bigint;
+  destinationStatus?: BalanceStatus;
+}
+
+/**
+ * Computes the balance at the end of the batch of every account whose
+ * events fully explain how its balance changed, starting from the indexed
+ * `Account`, by hex account id. Has to be called before the batch
+ * refreshes the accounts.
+ *
+ * Accounts that are new, emptied, endowed or slashed (which can take from
+ * free or reserved balance) are left to storage queries, and so is every
+ * account in runtimes without Withdraw events, where fees aren't evented.
+ * So are fee payers: they signed an extrinsic, which bumped their nonce
+ * and may have changed their locks. Their balances are still computed, to
+ * check the events of their counterparties. The locks and nonces of the
+ * derived accounts are carried over, as no Balances event reports them.
+ */
+export async function deriveBalances(
+  ctx: BatchContext<Store, unknown>,
+  events: DerivableEvent[]
+) {
+  const derived = new Map<string, Balance>();
+  if (events.length == 0 || !hasWithdrawEvent(ctx)) return derived;
+
+  const ids = new Set<string>();
+  for (const e of events) {
+    ids.add(e.account);
+    if (e.counterparty) ids.add(e.counterparty);
+  }
+  const previous = await ctx.store
+    .findBy(Account, { id: In([...ids].map((id) => encodeId(decodeHex(id)))) })
+    .then((accounts) => new Map(accounts.map((a) => [a.id, a])));
+
+  const underivable = new Set<string>();
+  const feePayers = new Set(
+    events
+      .filter((e) => e.kind == BalanceEventKind.Withdraw)
+      .map((e) => e.account)
+  );
+  function get(id: string) {
+    if (underivable.has(id)) return undefined;
+
+    let balance = derived.get(id);
+    if (!balance) {
+      const account = previous.get(encodeId(decodeHex(id)));
+      if (account?.status != AccountStatus.Active) {
+        underivable.add(id);
+        return undefined;
+      }
+      balance = getIndexedBalance(account);
+      derived.set(id, balance);
+    }
+    return balance;
+  }
+
+  for (const e of events) {
+    const counterparty = e.counterparty ? get(e.counterparty) : undefined;
+    if (!applyBalanceEvent(e, get(e.account), counterparty)) {
+      underivable.add(e.account);
+      if (e.counterparty) underivable.add(e.counterparty);
+    }
+  }
+
+  for (const [id, balance] of derived) {
+    // Emptied accounts may have lost dust without a Balances event
+    if (
+      underivable.has(id) ||
+      feePayers.has(id) ||
+      balance.free + balance.reserved == 0n
+    ) {
+      derived.delete(id);
+    }
+  }
+
+  ctx.log
+    .child("accounts")
+    .info(`derived from events: ${derived.size} of ${ids.size}`);
+  return derived;
+}
+
+/**
+ * The balance as last indexed, or an empty one for unknown accounts.
+ */
+export function getIndexedBalance(account: Account | undefined): Balance {
+  return {
+    free: account?.free ?? 0n,
+    reserved: account?.reserved ?? 0n,
+    miscFrozen: account?.miscFrozen ?? 0n,
+    feeFrozen: account?.feeFrozen ?? 0n,
+    nonce: account?.nonce ?? 0,
+    consumers: account?.consumers ?? 0,
+    providers: account?.providers ?? 0,
+    sufficients: account?.sufficients ?? undefined,
+  };
+}
+
+/**
+ * Applies an event that moved a known amount between free and reserved
+ * balances. Returns false for other events and when a balance would go
+ * negative, which means the starting balance was off.
+ */
+export function applyBalanceEvent(
+  e: DerivableEvent,
+  account: Balance | undefined,
+  counterparty: Balance | undefined
+) {
+  if (!account) return false;
+
+  switch (e.kind) {
+    case BalanceEventKind.Deposit:
+      account.free += e.amount;
+      return true;
+    case BalanceEventKind.Withdraw:
+      account.free -= e.amount;
+      return account.free >= 0n;
+    case BalanceEventKind.Reserved:
+      account.free -= e.amount;
+      account.reserved += e.amount;
+      return account.free >= 0n;
+    case BalanceEventKind.Unreserved:
+      account.reserved -= e.amount;
+      account.free += e.amount;
+      return account.reserved >= 0n;
+    case BalanceEventKind.BalanceSet:
+      account.free = e.amount;
+      account.reserved = e.reserved ?? 0n;
+      return true;
+    case BalanceEventKind.Transfer:
+      if (!counterparty) return false;
+      account.free -= e.amount;
+      counterparty.free += e.amount;
+      return account.free >= 0n;
+    case BalanceEventKind.ReserveRepatriated:
+      if (!counterparty) return false;
+      account.reserved -= e.amount;
+      if (e.destinationStatus == BalanceStatus.Reserved) {
+        counterparty.reserved += e.amount;
+      } else {
+        counterparty.free += e.amount;
+      }
+      return account.reserved >= 0n;
+    default:
+      return false;
+  }
+}
+
+// Runtimes before Balances.Withdraw charged fees without any event
+function hasWithdrawEvent(ctx: BatchContext<Store, unknown>) {
+  try {
+    ctx._chain.getEventHash("Balances.Withdraw");
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
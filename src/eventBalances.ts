@@ -0,0 +1,94 @@
+import {
+  BatchContext,
+  SubstrateBlock,
+  decodeHex,
+} from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In } from "typeorm";
+import { saveAccountBalances } from "./accounts";
+import {
+  applyBalanceEvent,
+  DerivableEvent,
+  getIndexedBalance,
+} from "./derivedBalances";
+import { Account, BalanceEventKind } from "./model";
+import { encodeId } from "./processor";
+
+/**
+ * Computes the balances of every account the batch touched by applying
+ * its events to the indexed balances, and saves them at `block` without
+ * querying storage. Used with BALANCE_SOURCE=events, where
+ * `spotCheckIfDue` compares them with storage every now and then.
+ *
+ * Endowed is only a marker, the Transfer, Deposit or BalanceSet next to it
+ * carries the amount. Slashed takes from free balance first and the rest
+ * from reserved, as `slash` does. Fees charged before Balances.Withdraw
+ * existed, dust and locks have no event here, so spot checks fix those.
+ */
+export async function saveEventBalances(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock,
+  events: DerivableEvent[],
+  endowments: Map<string, number>
+) {
+  const ids = new Set<string>();
+  for (const e of events) {
+    ids.add(e.account);
+    if (e.counterparty) ids.add(e.counterparty);
+  }
+  if (ids.size == 0) return;
+
+  const accountIds = [...ids];
+  const previous = await ctx.store
+    .findBy(Account, {
+      id: In(accountIds.map((id) => encodeId(decodeHex(id)))),
+    })
+    .then((accounts) => new Map(accounts.map((a) => [a.id, a])));
+
+  const balances = new Map(
+    accountIds.map((id) => [
+      id,
+      getIndexedBalance(previous.get(encodeId(decodeHex(id)))),
+    ])
+  );
+
+  let unexplained = 0;
+  for (const e of events) {
+    const account = balances.get(e.account)!;
+    const counterparty = e.counterparty
+      ? balances.get(e.counterparty)
+      : undefined;
+
+    if (e.kind == BalanceEventKind.Endowed) continue;
+    if (e.kind == BalanceEventKind.Slashed) {
+      const fromFree = e.amount < account.free ? e.amount : account.free;
+      account.free -= fromFree;
+      account.reserved -= e.amount - fromFree;
+    } else {
+      applyBalanceEvent(e, account, counterparty);
+    }
+
+    // Balances can't go negative, so an earlier change was missed
+    for (const balance of [account, counterparty]) {
+      if (balance && (balance.free < 0n || balance.reserved < 0n)) {
+        if (balance.free < 0n) balance.free = 0n;
+        if (balance.reserved < 0n) balance.reserved = 0n;
+        unexplained++;
+      }
+    }
+  }
+
+  if (unexplained > 0) {
+    ctx.log
+      .child("accounts")
+      .warn(`${unexplained} events took more than the computed balance`);
+  }
+
+  await saveAccountBalances(
+    ctx,
+    block,
+    accountIds.map((id) => decodeHex(id)),
+    accountIds.map((id) => balances.get(id)),
+    endowments
+  );
+}
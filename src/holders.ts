@@ -0,0 +1,136 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { IsNull, Not } from "typeorm";
+import { config } from "./config";
+import {
+  Account,
+  AccountStatus,
+  ChainState,
+  HolderBracket,
+  HolderDistribution,
+  HolderRank,
+} from "./model";
+
+// Number of top holders whose ranks are kept with every distribution, the
+// largest page of the leaderboard query
+export const LEADERBOARD_SIZE = 100;
+
+// Lower bounds of the balance brackets, in whole tokens
+const BRACKETS = [0, 1, 10, 100, 1_000, 10_000, 100_000, 1_000_000, 10_000_000];
+
+/**
+ * Records a `HolderDistribution` with the top holders and refreshes
+ * `Account.rank` when ChainState is sampled at the last block of the batch.
+ * Balances are only indexed as of that block, which is why the processor
+ * splits batches after every sampled block. Batches without a sample at
+ * their end skip loading every holder.
+ */
+export async function saveHolderDistributions(
+  ctx: BatchContext<Store, unknown>,
+  states: ChainState[]
+) {
+  const last = ctx.blocks[ctx.blocks.length - 1].header;
+  const state = states.find((s) => s.blockNumber == last.height);
+  const skipped = states.length - (state ? 1 : 0);
+  if (skipped > 0) {
+    ctx.log
+      .child("holders")
+      .info(`samples before the end of the batch skipped: ${skipped}`);
+  }
+  if (!state) return;
+
+  const holders = await ctx.store.find(Account, {
+    where: { status: AccountStatus.Active },
+    order: { total: "DESC", id: "ASC" },
+  });
+  await saveRanks(ctx, holders);
+
+  const totals = holders.map((a) => a.total);
+  const distribution = new HolderDistribution({
+    id: state.id,
+    chainState: state,
+    blockNumber: state.blockNumber,
+    timestamp: state.timestamp,
+    holders: holders.length,
+    top10Share: getTopShare(totals, 10),
+    top100Share: getTopShare(totals, 100),
+    top1000Share: getTopShare(totals, 1000),
+    gini: getGini(totals),
+    brackets: getBrackets(totals),
+  });
+  await ctx.store.insert(distribution);
+
+  await ctx.store.insert(
+    holders.slice(0, LEADERBOARD_SIZE).map(
+      (account, i) =>
+        new HolderRank({
+          id: `${state.id}-${i + 1}`,
+          distribution,
+          account,
+          rank: i + 1,
+          total: account.total,
+          blockNumber: state.blockNumber,
+        })
+    )
+  );
+
+  ctx.log.child("holders").info(`ranked: ${holders.length}`);
+}
+
+async function saveRanks(
+  ctx: BatchContext<Store, unknown>,
+  holders: Account[]
+) {
+  const changed = holders.filter((account, i) => {
+    if (account.rank == i + 1) return false;
+    account.rank = i + 1;
+    return true;
+  });
+
+  const unranked = await ctx.store.findBy(Account, {
+    status: AccountStatus.Reaped,
+    rank: Not(IsNull()),
+  });
+  for (const account of unranked) account.rank = null;
+
+  await ctx.store.save([...changed, ...unranked]);
+}
+
+function sum(values: bigint[]) {
+  return values.reduce((a, b) => a + b, 0n);
+}
+
+function ratio(a: bigint, b: bigint) {
+  if (b == 0n) return 0;
+  return Number((a * 1_000_000n) / b) / 1_000_000;
+}
+
+// Totals are sorted in descending order
+function getTopShare(totals: bigint[], count: number) {
+  return ratio(sum(totals.slice(0, count)), sum(totals));
+}
+
+// G = 2 * sum(i * x_i) / (n * sum(x)) - (n + 1) / n, ranking ascending from 1
+function getGini(totals: bigint[]) {
+  const n = totals.length;
+  if (n == 0) return 0;
+
+  let weighted = 0n;
+  totals.forEach((total, i) => (weighted += BigInt(n - i) * total));
+
+  return ratio(2n * weighted, BigInt(n) * sum(totals)) - (n + 1) / n;
+}
+
+function getBrackets(totals: bigint[]) {
+  const unit = 10n ** BigInt(config.decimals);
+  const brackets = BRACKETS.map(
+    (min) => new HolderBracket({ minBalance: BigInt(min) * unit, holders: 0 })
+  );
+
+  for (const total of totals) {
+    let i = brackets.length - 1;
+    while (brackets[i].minBalance > total) i--;
+    brackets[i].holders++;
+  }
+  return brackets;
+}
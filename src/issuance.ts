@@ -0,0 +1,251 @@
+import { BatchContext, SubstrateBlock } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { getTotalIssuance } from "./chainState";
+import { config } from "./config";
+import { unknownVersionErrors } from "./metrics";
+import { BalanceEventKind, IssuanceChange } from "./model";
+import { UnknownVersionError } from "./processor";
+import { mapConcurrently } from "./storage";
+
+interface IssuanceEvent {
+  id: string;
+  kind: BalanceEventKind;
+  account: string;
+  counterparty?: string;
+  amount: bigint;
+  blockNumber: number;
+}
+
+interface BlockIssuance {
+  minted: bigint;
+  burned: bigint;
+  eventIds: string[];
+}
+
+const NO_EVENTS: BlockIssuance = { minted: 0n, burned: 0n, eventIds: [] };
+
+// TotalIssuance at the end of the last batch, which the next batch checks
+// its changes against
+let lastChecked: { hash: string; issuance: bigint } | undefined;
+
+/**
+ * Records an `IssuanceChange` for every block of the batch with mint or burn
+ * events. Returns the change each explaining event belongs to.
+ *
+ * `Balances.TotalIssuance` is read once for the whole batch, since the end
+ * of the previous one. When its change is what the events add up to, every
+ * block is taken to have changed by its own events. Otherwise each block
+ * with events is compared with its parent block, and the blocks in between
+ * should leave TotalIssuance as it was: a move there is recorded as a
+ * mismatched change at the last block of the range. After a restart, the
+ * batch is checked from its first block, or from its parent if the first
+ * block has events.
+ */
+export async function saveIssuanceChanges(
+  ctx: BatchContext<Store, unknown>,
+  events: IssuanceEvent[]
+) {
+  const blocks = getBlockIssuance(events);
+  const first = ctx.blocks[0].header;
+  const last = ctx.blocks[ctx.blocks.length - 1].header;
+
+  const continued = lastChecked?.hash == first.parentHash;
+  const start =
+    continued || blocks.has(first.height) ? first.parentHash : first.hash;
+  const issuance = await getIssuanceAt(
+    ctx,
+    continued ? [last.hash] : [...new Set([start, last.hash])]
+  );
+  if (continued) issuance.set(lastChecked!.hash, lastChecked!.issuance);
+
+  let net = 0n;
+  for (const block of blocks.values()) net += block.minted - block.burned;
+  const from = issuance.get(start);
+  const to = issuance.get(last.hash);
+  const explainedByEvents = from != null && to != null && to - from == net;
+
+  const changes = explainedByEvents
+    ? getEventChanges(ctx, blocks, from)
+    : await getBlockChanges(ctx, blocks, start, issuance);
+
+  const explained = new Map<string, IssuanceChange>();
+  for (const [change, block] of changes) {
+    block.eventIds.forEach((id) => explained.set(id, change));
+    if (!change.mismatch) continue;
+    ctx.log
+      .child("issuance")
+      .warn(
+        `block ${change.blockNumber}: storage delta ${change.delta}, ` +
+          `events minted ${change.minted} and burned ${change.burned}`
+      );
+  }
+
+  await ctx.store.insert(changes.map(([change]) => change));
+
+  lastChecked = to == null ? undefined : { hash: last.hash, issuance: to };
+
+  return explained;
+}
+
+type CheckedChange = [IssuanceChange, BlockIssuance];
+
+// The changes of the blocks with events, counted from `issuance` at the
+// start of the batch, when the batch as a whole matches its events
+function getEventChanges(
+  ctx: BatchContext<Store, unknown>,
+  blocks: Map<number, BlockIssuance>,
+  issuance: bigint
+) {
+  const changes: CheckedChange[] = [];
+  for (const { header } of ctx.blocks) {
+    const block = blocks.get(header.height);
+    if (!block) continue;
+
+    const parent = issuance;
+    issuance += block.minted - block.burned;
+    const change = getChange(header, parent, issuance, block);
+    if (change) changes.push([change, block]);
+  }
+  return changes;
+}
+
+// Reads TotalIssuance around every block with events, and at the end of
+// the batch, to find the blocks that don't match their events
+async function getBlockChanges(
+  ctx: BatchContext<Store, unknown>,
+  blocks: Map<number, BlockIssuance>,
+  start: string,
+  issuance: Map<string, bigint | undefined>
+) {
+  const headers = new Map(ctx.blocks.map((b) => [b.header.height, b.header]));
+  const last = ctx.blocks[ctx.blocks.length - 1].header;
+  const checked = ctx.blocks
+    .map((b) => b.header)
+    .filter((header) => blocks.has(header.height) || header == last);
+
+  const hashes = new Set<string>();
+  for (const header of checked) {
+    if (!blocks.has(header.height)) continue;
+    hashes.add(header.hash);
+    hashes.add(header.parentHash);
+  }
+  const missing = [...hashes].filter((hash) => !issuance.has(hash));
+  for (const [hash, value] of await getIssuanceAt(ctx, missing)) {
+    issuance.set(hash, value);
+  }
+
+  const changes: CheckedChange[] = [];
+  let previous = start;
+
+  for (const header of checked) {
+    const block = blocks.get(header.height);
+
+    const end = block ? headers.get(header.height - 1) : header;
+    if (end && end.hash != previous) {
+      const change = getChange(
+        end,
+        issuance.get(previous),
+        issuance.get(end.hash),
+        NO_EVENTS
+      );
+      if (change) changes.push([change, NO_EVENTS]);
+    }
+    previous = header.hash;
+    if (!block) continue;
+
+    const change = getChange(
+      header,
+      issuance.get(header.parentHash),
+      issuance.get(header.hash),
+      block
+    );
+    if (change) changes.push([change, block]);
+  }
+  return changes;
+}
+
+function getChange(
+  header: SubstrateBlock,
+  parent: bigint | undefined,
+  current: bigint | undefined,
+  block: BlockIssuance
+) {
+  if (current == null || parent == null) return undefined;
+
+  const delta = current - parent;
+  const mismatch = delta != block.minted - block.burned;
+  if (delta == 0n && !mismatch) return undefined;
+
+  return new IssuanceChange({
+    id: header.id,
+    blockNumber: header.height,
+    timestamp: new Date(header.timestamp),
+    totalIssuance: current,
+    delta,
+    minted: block.minted,
+    burned: block.burned,
+    mismatch,
+  });
+}
+
+// Reads run as concurrently as storage queries, blocks of runtimes the types
+// don't know are skipped unless the policy is strict
+async function getIssuanceAt(
+  ctx: BatchContext<Store, unknown>,
+  hashes: string[]
+) {
+  const values = await mapConcurrently(hashes, (hash) =>
+    getTotalIssuance(ctx, { hash }).catch((e) => {
+      if (!(e instanceof UnknownVersionError)) throw e;
+      unknownVersionErrors.inc({ item: "Balances.TotalIssuance" });
+      if (config.unknownVersionPolicy == "strict") throw e;
+      return undefined;
+    })
+  );
+  return new Map(hashes.map((hash, i) => [hash, values[i]]));
+}
+
+function getBlockIssuance(events: IssuanceEvent[]) {
+  // Accounts created by a deposit or a transfer emit Endowed as well, and
+  // those funds are already accounted for (or not minted at all)
+  const funded = new Set<string>();
+  for (const event of events) {
+    if (event.kind == BalanceEventKind.Deposit) {
+      funded.add(`${event.blockNumber}-${event.account}`);
+    } else if (event.kind == BalanceEventKind.Transfer) {
+      funded.add(`${event.blockNumber}-${event.counterparty}`);
+    }
+  }
+
+  const blocks = new Map<number, BlockIssuance>();
+  for (const event of events) {
+    let minted = 0n;
+    let burned = 0n;
+    switch (event.kind) {
+      case BalanceEventKind.Deposit:
+        minted = event.amount;
+        break;
+      case BalanceEventKind.Endowed:
+        if (funded.has(`${event.blockNumber}-${event.account}`)) continue;
+        minted = event.amount;
+        break;
+      case BalanceEventKind.Withdraw:
+      case BalanceEventKind.Slashed:
+        burned = event.amount;
+        break;
+      default:
+        continue;
+    }
+
+    let block = blocks.get(event.blockNumber);
+    if (!block) {
+      block = { minted: 0n, burned: 0n, eventIds: [] };
+      blocks.set(event.blockNumber, block);
+    }
+    block.minted += minted;
+    block.burned += burned;
+    block.eventIds.push(event.id);
+  }
+
+  return blocks;
+}
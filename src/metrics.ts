@@ -0,0 +1,141 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import * as http from "http";
+import {
+  collectDefaultMetrics,
+  Counter,
+  exponentialBuckets,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import { ConfigError } from "./config";
+
+// The processor serves its own metrics (sync speed, archive and RPC errors)
+// at PROCESSOR_PROMETHEUS_PORT from a registry it keeps to itself, so these
+// are served separately
+const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const indexedHeight = new Gauge({
+  name: "balances_indexed_height",
+  help: "Last block processed",
+  registers: [registry],
+});
+
+export const headLag = new Gauge({
+  name: "balances_chain_head_lag_blocks",
+  help: "Blocks between the best block of the chain node and the last block processed",
+  registers: [registry],
+});
+
+export const batchDuration = new Histogram({
+  name: "balances_batch_duration_seconds",
+  help: "Time spent processing a batch, without fetching it from the archive",
+  buckets: exponentialBuckets(0.05, 2, 12),
+  registers: [registry],
+});
+
+export const processedEvents = new Counter({
+  name: "balances_events_total",
+  help: "Events processed, by name",
+  labelNames: ["name"],
+  registers: [registry],
+});
+
+export const accountsUpdated = new Counter({
+  name: "balances_accounts_updated_total",
+  help: "Account balances saved with a non-zero balance",
+  registers: [registry],
+});
+
+export const accountsReaped = new Counter({
+  name: "balances_accounts_reaped_total",
+  help: "Account balances saved with a zero balance, marking them reaped",
+  registers: [registry],
+});
+
+export const storageQueryDuration = new Histogram({
+  name: "balances_storage_query_duration_seconds",
+  help: "Time taken by successful storage queries to the chain node",
+  labelNames: ["item"],
+  buckets: exponentialBuckets(0.01, 2, 12),
+  registers: [registry],
+});
+
+export const storageQueryRetries = new Counter({
+  name: "balances_storage_query_retries_total",
+  help: "Storage queries that failed and were retried",
+  labelNames: ["item"],
+  registers: [registry],
+});
+
+export const storageQueryFailures = new Counter({
+  name: "balances_storage_query_failures_total",
+  help: "Storage queries that failed after every retry",
+  labelNames: ["item"],
+  registers: [registry],
+});
+
+export const unknownVersionErrors = new Counter({
+  name: "balances_unknown_version_errors_total",
+  help: "Events and storage items of a runtime version the processor can't decode",
+  labelNames: ["item"],
+  registers: [registry],
+});
+
+/**
+ * Records the height and duration of a batch that took `seconds` to
+ * process. The head lag is refreshed from the chain node when the metrics
+ * are served, as that costs a request per batch.
+ */
+export async function registerBatch(
+  ctx: BatchContext<Store, unknown>,
+  seconds: number
+) {
+  const height = ctx.blocks[ctx.blocks.length - 1].header.height;
+  indexedHeight.set(height);
+  batchDuration.observe(seconds);
+
+  if (!serving) return;
+  try {
+    const head = await ctx._chain.client.call("chain_getHeader", []);
+    headLag.set(Math.max(parseInt(head.number, 16) - height, 0));
+  } catch (e) {
+    ctx.log.child("metrics").warn(`chain head not updated: ${e}`);
+  }
+}
+
+let serving = false;
+
+/**
+ * Starts serving the metrics at `port`, failing with a `ConfigError` when
+ * the port can't be listened on.
+ */
+export function serveMetrics(port: number): Promise<http.Server> {
+  const server = http.createServer(async (req, res) => {
+    if (req.url != "/metrics") {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const body = await registry.metrics();
+      res.writeHead(200, { "content-type": registry.contentType }).end(body);
+    } catch (e) {
+      res.writeHead(500).end(String(e));
+    }
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", (e) =>
+      reject(
+        new ConfigError(
+          `METRICS_PORT ${port} can't be listened on: ${e.message}`
+        )
+      )
+    );
+    server.listen(port, () => {
+      serving = true;
+      resolve(server);
+    });
+  });
+}
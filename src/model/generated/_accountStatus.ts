@@ -0,0 +1,4 @@
+export enum AccountStatus {
+  Active = "Active",
+  Reaped = "Reaped",
+}
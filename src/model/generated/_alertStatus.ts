@@ -0,0 +1,4 @@
+export enum AlertStatus {
+  Pending = "Pending",
+  Delivered = "Delivered",
+}
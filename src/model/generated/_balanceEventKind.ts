@@ -0,0 +1,11 @@
+export enum BalanceEventKind {
+  Endowed = "Endowed",
+  Deposit = "Deposit",
+  Withdraw = "Withdraw",
+  Reserved = "Reserved",
+  Unreserved = "Unreserved",
+  Slashed = "Slashed",
+  BalanceSet = "BalanceSet",
+  Transfer = "Transfer",
+  ReserveRepatriated = "ReserveRepatriated",
+}
@@ -0,0 +1,4 @@
+export enum BalanceStatus {
+  Free = "Free",
+  Reserved = "Reserved",
+}
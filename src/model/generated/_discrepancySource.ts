@@ -0,0 +1,4 @@
+export enum DiscrepancySource {
+  Reconciliation = "Reconciliation",
+  SpotCheck = "SpotCheck",
+}
@@ -0,0 +1,43 @@
+import assert from "assert";
+import * as marshal from "./marshal";
+
+/**
+ * Balance bracket of a HolderDistribution, from minBalance up to the next bracket
+ */
+export class HolderBracket {
+  private _minBalance!: bigint;
+  private _holders!: number;
+
+  constructor(props?: Partial<Omit<HolderBracket, "toJSON">>, json?: any) {
+    Object.assign(this, props);
+    if (json != null) {
+      this._minBalance = marshal.bigint.fromJSON(json.minBalance);
+      this._holders = marshal.int.fromJSON(json.holders);
+    }
+  }
+
+  get minBalance(): bigint {
+    assert(this._minBalance != null, "uninitialized access");
+    return this._minBalance;
+  }
+
+  set minBalance(value: bigint) {
+    this._minBalance = value;
+  }
+
+  get holders(): number {
+    assert(this._holders != null, "uninitialized access");
+    return this._holders;
+  }
+
+  set holders(value: number) {
+    this._holders = value;
+  }
+
+  toJSON(): object {
+    return {
+      minBalance: marshal.bigint.toJSON(this.minBalance),
+      holders: this.holders,
+    };
+  }
+}
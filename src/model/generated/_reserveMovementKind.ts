@@ -0,0 +1,5 @@
+export enum ReserveMovementKind {
+  Reserved = "Reserved",
+  Unreserved = "Unreserved",
+  Repatriated = "Repatriated",
+}
@@ -2,8 +2,17 @@ import {
   Entity as Entity_,
   Column as Column_,
   PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+  OneToMany as OneToMany_,
 } from "typeorm";
 import * as marshal from "./marshal";
+import { AccountStatus } from "./_accountStatus";
+import { Transfer } from "./transfer.model";
+import { AccountBalanceSnapshot } from "./accountBalanceSnapshot.model";
+import { BalanceEvent } from "./balanceEvent.model";
+import { ReserveMovement } from "./reserveMovement.model";
+import { Slash } from "./slash.model";
+import { FeeWithdrawal } from "./feeWithdrawal.model";
 
 @Entity_()
 export class Account {
@@ -14,6 +23,13 @@ export class Account {
   @PrimaryColumn_()
   id!: string;
 
+  /**
+   * Hex encoded public key, shared with the account's addresses on other chains
+   */
+  @Index_()
+  @Column_("text", { nullable: false })
+  publicKey!: string;
+
   @Column_("numeric", {
     transformer: marshal.bigintTransformer,
     nullable: false,
@@ -32,6 +48,104 @@ export class Account {
   })
   total!: bigint;
 
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  miscFrozen!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  feeFrozen!: bigint;
+
+  /**
+   * Free balance not held by either of the frozen amounts
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  transferable!: bigint;
+
+  @Column_("int4", { nullable: false })
+  nonce!: number;
+
+  @Column_("int4", { nullable: false })
+  consumers!: number;
+
+  @Column_("int4", { nullable: false })
+  providers!: number;
+
+  /**
+   * Only present in the V3 AccountInfo layout
+   */
+  @Column_("int4", { nullable: true })
+  sufficients!: number | undefined | null;
+
   @Column_("int4", { nullable: true })
   updatedAt!: number | undefined | null;
+
+  @Index_()
+  @Column_("varchar", { length: 6, nullable: false })
+  status!: AccountStatus;
+
+  /**
+   * Block of the latest Balances.Endowed, or where the account was first indexed
+   */
+  @Column_("int4", { nullable: true })
+  createdAt!: number | undefined | null;
+
+  /**
+   * Block where the account was last seen with a zero balance
+   */
+  @Column_("int4", { nullable: true })
+  reapedAt!: number | undefined | null;
+
+  /**
+   * Position by total balance among active accounts at the latest HolderDistribution, 1 is the largest holder
+   */
+  @Index_()
+  @Column_("int4", { nullable: true })
+  rank!: number | undefined | null;
+
+  /**
+   * Sum of all Balances.Slashed amounts
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  totalSlashed!: bigint;
+
+  /**
+   * Sum of all Balances.Withdraw amounts
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  totalFeesPaid!: bigint;
+
+  @OneToMany_(() => Transfer, (e) => e.from)
+  transfersFrom!: Transfer[];
+
+  @OneToMany_(() => Transfer, (e) => e.to)
+  transfersTo!: Transfer[];
+
+  @OneToMany_(() => AccountBalanceSnapshot, (e) => e.account)
+  balanceHistory!: AccountBalanceSnapshot[];
+
+  @OneToMany_(() => BalanceEvent, (e) => e.account)
+  balanceEvents!: BalanceEvent[];
+
+  @OneToMany_(() => ReserveMovement, (e) => e.account)
+  reserveMovements!: ReserveMovement[];
+
+  @OneToMany_(() => Slash, (e) => e.account)
+  slashes!: Slash[];
+
+  @OneToMany_(() => FeeWithdrawal, (e) => e.account)
+  feeWithdrawals!: FeeWithdrawal[];
 }
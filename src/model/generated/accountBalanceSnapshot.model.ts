@@ -0,0 +1,64 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  ManyToOne as ManyToOne_,
+  Index as Index_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { Account } from "./account.model";
+
+@Index_(["account", "blockNumber"], { unique: false })
+@Entity_()
+export class AccountBalanceSnapshot {
+  constructor(props?: Partial<AccountBalanceSnapshot>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  free!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  reserved!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  frozen!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  total!: bigint;
+
+  /**
+   * Change of total balance since the previous snapshot
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  delta!: bigint;
+}
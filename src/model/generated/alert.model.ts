@@ -0,0 +1,47 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+} from "typeorm";
+import { AlertStatus } from "./_alertStatus";
+
+/**
+ * Alert for the webhooks of ALERTS_CONFIG, saved with its batch so that it is raised once and retried until delivered
+ */
+@Entity_()
+export class Alert {
+  constructor(props?: Partial<Alert>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  /**
+   * transfer, slash or issuance
+   */
+  @Column_("text", { nullable: false })
+  rule!: string;
+
+  @Column_("text", { nullable: false })
+  message!: string;
+
+  /**
+   * JSON posted to the webhooks
+   */
+  @Column_("text", { nullable: false })
+  body!: string;
+
+  @Index_()
+  @Column_("varchar", { length: 9, nullable: false })
+  status!: AlertStatus;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+}
@@ -0,0 +1,69 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  ManyToOne as ManyToOne_,
+  Index as Index_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { Account } from "./account.model";
+import { DiscrepancySource } from "./_discrepancySource";
+
+/**
+ * Account balance that disagreed with System.Account during reconciliation or a spot check
+ */
+@Entity_()
+export class BalanceDiscrepancy {
+  constructor(props?: Partial<BalanceDiscrepancy>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  @Index_()
+  @Column_("varchar", { length: 14, nullable: false })
+  source!: DiscrepancySource;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  /**
+   * Indexed free balance before the fix, null if the account was missing
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: true,
+  })
+  indexedFree!: bigint | undefined | null;
+
+  /**
+   * Indexed reserved balance before the fix, null if the account was missing
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: true,
+  })
+  indexedReserved!: bigint | undefined | null;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  free!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  reserved!: bigint;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+  ManyToOne as ManyToOne_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { BalanceEventKind } from "./_balanceEventKind";
+import { Account } from "./account.model";
+import { IssuanceChange } from "./issuanceChange.model";
+
+@Entity_()
+export class BalanceEvent {
+  constructor(props?: Partial<BalanceEvent>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @Column_("varchar", { length: 18, nullable: false })
+  kind!: BalanceEventKind;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  /**
+   * Receiving account of Transfer and ReserveRepatriated events
+   */
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  counterparty!: Account | undefined | null;
+
+  /**
+   * Free balance for BalanceSet events, moved or created amount otherwise
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  amount!: bigint;
+
+  /**
+   * Reserved balance for BalanceSet events
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: true,
+  })
+  reserved!: bigint | undefined | null;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("int4", { nullable: false })
+  eventIndex!: number;
+
+  @Index_()
+  @Column_("text", { nullable: true })
+  extrinsicHash!: string | undefined | null;
+
+  /**
+   * Issuance change this mint or burn event explains
+   */
+  @Index_()
+  @ManyToOne_(() => IssuanceChange, { nullable: true })
+  issuanceChange!: IssuanceChange | undefined | null;
+}
@@ -0,0 +1,57 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+} from "typeorm";
+import * as marshal from "./marshal";
+
+/**
+ * Daily aggregate of ChainState samples and Balances activity
+ */
+@Entity_()
+export class ChainStateDaily {
+  constructor(props?: Partial<ChainStateDaily>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  /**
+   * Start of the bucket
+   */
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  openTotalIssuance!: bigint;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  closeTotalIssuance!: bigint;
+
+  @Column_("int4", { nullable: false })
+  minTokenHolders!: number;
+
+  @Column_("int4", { nullable: false })
+  maxTokenHolders!: number;
+
+  @Column_("int4", { nullable: false })
+  transferCount!: number;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  transferVolume!: bigint;
+
+  @Column_("int4", { nullable: false })
+  newAccounts!: number;
+}
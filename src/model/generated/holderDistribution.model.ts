@@ -0,0 +1,88 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  OneToOne as OneToOne_,
+  Index as Index_,
+  JoinColumn as JoinColumn_,
+  OneToMany as OneToMany_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { ChainState } from "./chainState.model";
+import { HolderBracket } from "./_holderBracket";
+import { HolderRank } from "./holderRank.model";
+
+/**
+ * Concentration of balances among active accounts, sampled with the ChainState of the last block of a batch
+ */
+@Entity_()
+export class HolderDistribution {
+  constructor(props?: Partial<HolderDistribution>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_({ unique: true })
+  @OneToOne_(() => ChainState, { nullable: false })
+  @JoinColumn_()
+  chainState!: ChainState;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("int4", { nullable: false })
+  holders!: number;
+
+  /**
+   * Share of the total balance held by the 10 largest holders
+   */
+  @Column_("numeric", {
+    transformer: marshal.floatTransformer,
+    nullable: false,
+  })
+  top10Share!: number;
+
+  @Column_("numeric", {
+    transformer: marshal.floatTransformer,
+    nullable: false,
+  })
+  top100Share!: number;
+
+  @Column_("numeric", {
+    transformer: marshal.floatTransformer,
+    nullable: false,
+  })
+  top1000Share!: number;
+
+  /**
+   * Gini coefficient of account totals, 0 when all holders hold the same
+   */
+  @Column_("numeric", {
+    transformer: marshal.floatTransformer,
+    nullable: false,
+  })
+  gini!: number;
+
+  @Column_("jsonb", {
+    transformer: {
+      to: (obj) => obj.map((val: any) => val.toJSON()),
+      from: (obj) =>
+        marshal.fromList(
+          obj,
+          (val) => new HolderBracket(undefined, marshal.nonNull(val))
+        ),
+    },
+    nullable: false,
+  })
+  brackets!: HolderBracket[];
+
+  @OneToMany_(() => HolderRank, (e) => e.distribution)
+  ranks!: HolderRank[];
+}
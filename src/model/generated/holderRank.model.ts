@@ -0,0 +1,44 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  ManyToOne as ManyToOne_,
+  Index as Index_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { HolderDistribution } from "./holderDistribution.model";
+import { Account } from "./account.model";
+
+/**
+ * Leaderboard position of a top holder at a HolderDistribution sample
+ */
+@Entity_()
+export class HolderRank {
+  constructor(props?: Partial<HolderRank>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @ManyToOne_(() => HolderDistribution, { nullable: true })
+  distribution!: HolderDistribution;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  @Column_("int4", { nullable: false })
+  rank!: number;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  total!: bigint;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+}
@@ -1,2 +1,24 @@
 export * from "./account.model";
+export * from "./_accountStatus";
+export * from "./accountBalanceSnapshot.model";
 export * from "./chainState.model";
+export * from "./holderDistribution.model";
+export * from "./_holderBracket";
+export * from "./holderRank.model";
+export * from "./chainStateHourly.model";
+export * from "./chainStateDaily.model";
+export * from "./transfer.model";
+export * from "./balanceEvent.model";
+export * from "./_balanceEventKind";
+export * from "./balanceDiscrepancy.model";
+export * from "./_discrepancySource";
+export * from "./processorState.model";
+export * from "./undecodedEvent.model";
+export * from "./issuanceChange.model";
+export * from "./reserveMovement.model";
+export * from "./_reserveMovementKind";
+export * from "./_balanceStatus";
+export * from "./slash.model";
+export * from "./feeWithdrawal.model";
+export * from "./alert.model";
+export * from "./_alertStatus";
@@ -0,0 +1,73 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+  OneToMany as OneToMany_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { BalanceEvent } from "./balanceEvent.model";
+
+/**
+ * Block where Balances.TotalIssuance moved, with the events explaining it
+ */
+@Entity_()
+export class IssuanceChange {
+  constructor(props?: Partial<IssuanceChange>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  totalIssuance!: bigint;
+
+  /**
+   * Change of the TotalIssuance storage since the parent block, or since the last block checked for moves without mint or burn events
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  delta!: bigint;
+
+  /**
+   * Sum of Deposit and Endowed amounts, Endowed only for accounts not funded otherwise
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  minted!: bigint;
+
+  /**
+   * Sum of Withdraw and Slashed amounts
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  burned!: bigint;
+
+  /**
+   * Whether minted - burned differs from delta
+   */
+  @Index_()
+  @Column_("bool", { nullable: false })
+  mismatch!: boolean;
+
+  @OneToMany_(() => BalanceEvent, (e) => e.issuanceChange)
+  events!: BalanceEvent[];
+}
@@ -0,0 +1,30 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+} from "typeorm";
+
+/**
+ * Processor bookkeeping that has to survive restarts
+ */
+@Entity_()
+export class ProcessorState {
+  constructor(props?: Partial<ProcessorState>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  /**
+   * Network the database was indexed for
+   */
+  @Column_("text", { nullable: true })
+  network!: string | undefined | null;
+
+  /**
+   * Block at which all System.Account entries were loaded
+   */
+  @Column_("int4", { nullable: true })
+  bootstrappedAt!: number | undefined | null;
+}
@@ -0,0 +1,88 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+  ManyToOne as ManyToOne_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { ReserveMovementKind } from "./_reserveMovementKind";
+import { Account } from "./account.model";
+import { BalanceStatus } from "./_balanceStatus";
+
+@Entity_()
+export class ReserveMovement {
+  constructor(props?: Partial<ReserveMovement>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @Column_("varchar", { length: 11, nullable: false })
+  kind!: ReserveMovementKind;
+
+  /**
+   * Account whose reserved balance changed, the source of repatriations
+   */
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  /**
+   * Receiving account of repatriated reserves
+   */
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  destination!: Account | undefined | null;
+
+  /**
+   * Balance of the destination the repatriated reserves were moved to
+   */
+  @Column_("varchar", { length: 8, nullable: true })
+  destinationStatus!: BalanceStatus | undefined | null;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  amount!: bigint;
+
+  /**
+   * Running reserved balance of the account after this movement
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  reservedAfter!: bigint;
+
+  /**
+   * Running reserved balance of the destination, when repatriated to its reserves
+   */
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: true,
+  })
+  destinationReservedAfter!: bigint | undefined | null;
+
+  /**
+   * Call that caused the movement, e.g. ParachainStaking.delegate
+   */
+  @Index_()
+  @Column_("text", { nullable: true })
+  reason!: string | undefined | null;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Index_()
+  @Column_("text", { nullable: true })
+  extrinsicHash!: string | undefined | null;
+}
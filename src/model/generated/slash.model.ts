@@ -0,0 +1,44 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  ManyToOne as ManyToOne_,
+  Index as Index_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { Account } from "./account.model";
+
+/**
+ * Balances.Slashed event, a penalty burned from the account
+ */
+@Entity_()
+export class Slash {
+  constructor(props?: Partial<Slash>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  account!: Account;
+
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  amount!: bigint;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Index_()
+  @Column_("text", { nullable: true })
+  extrinsicHash!: string | undefined | null;
+}
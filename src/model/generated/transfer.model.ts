@@ -0,0 +1,46 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+  ManyToOne as ManyToOne_,
+} from "typeorm";
+import * as marshal from "./marshal";
+import { Account } from "./account.model";
+
+@Index_(["from", "to"], { unique: false })
+@Entity_()
+export class Transfer {
+  constructor(props?: Partial<Transfer>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Index_()
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Index_()
+  @Column_("text", { nullable: true })
+  extrinsicHash!: string | undefined | null;
+
+  @ManyToOne_(() => Account, { nullable: true })
+  from!: Account;
+
+  @Index_()
+  @ManyToOne_(() => Account, { nullable: true })
+  to!: Account;
+
+  @Index_()
+  @Column_("numeric", {
+    transformer: marshal.bigintTransformer,
+    nullable: false,
+  })
+  amount!: bigint;
+}
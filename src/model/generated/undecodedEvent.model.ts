@@ -0,0 +1,49 @@
+import {
+  Entity as Entity_,
+  Column as Column_,
+  PrimaryColumn as PrimaryColumn_,
+  Index as Index_,
+} from "typeorm";
+
+/**
+ * Event of a runtime version the generated types don't know, kept for replay after typegen
+ */
+@Entity_()
+export class UndecodedEvent {
+  constructor(props?: Partial<UndecodedEvent>) {
+    Object.assign(this, props);
+  }
+
+  @PrimaryColumn_()
+  id!: string;
+
+  @Index_()
+  @Column_("text", { nullable: false })
+  name!: string;
+
+  @Index_()
+  @Column_("text", { nullable: false })
+  specId!: string;
+
+  @Column_("jsonb", { nullable: true })
+  args!: unknown | undefined | null;
+
+  /**
+   * Whether the best-effort decode by field names succeeded
+   */
+  @Column_("bool", { nullable: false })
+  decoded!: boolean;
+
+  @Index_()
+  @Column_("int4", { nullable: false })
+  blockNumber!: number;
+
+  @Column_("timestamp with time zone", { nullable: false })
+  timestamp!: Date;
+
+  @Column_("int4", { nullable: false })
+  eventIndex!: number;
+
+  @Column_("text", { nullable: true })
+  extrinsicHash!: string | undefined | null;
+}
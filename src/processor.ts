@@ -1,4 +1,3 @@
-import { lookupArchive } from "@subsquid/archive-registry";
 import * as ss58 from "@subsquid/ss58";
 import {
   BatchContext,
@@ -9,8 +8,16 @@ import {
   decodeHex,
   toHex,
 } from "@subsquid/substrate-processor";
-import { Store, TypeormDatabase } from "@subsquid/typeorm-store";
-import { Account } from "./model";
+import { Store } from "@subsquid/typeorm-store";
+import {
+  Account,
+  BalanceEvent,
+  BalanceEventKind,
+  BalanceStatus,
+  IssuanceChange,
+  Transfer,
+  UndecodedEvent,
+} from "./model";
 import {
   BalancesBalanceSetEvent,
   BalancesDepositEvent,
@@ -22,308 +29,515 @@ import {
   BalancesWithdrawEvent,
   BalancesTransferEvent,
 } from "./types/generated/events";
-import { Block, ChainContext, Event } from "./types/generated/support";
-import { SystemAccountStorage } from "./types/generated/storage";
-import { saveRegularChainState } from "./chainState";
+import { ChainContext, Event } from "./types/generated/support";
+import { saveAccounts } from "./accounts";
+import { AlertingDatabase, sendAlerts } from "./alerts";
+import { bootstrapIfNeeded } from "./bootstrap";
+import { saveSlashesAndFees } from "./burns";
+import { getSampledBlocks, saveChainStates } from "./chainState";
+import { config } from "./config";
+import { deriveBalances } from "./derivedBalances";
+import { saveEventBalances } from "./eventBalances";
+import { saveHolderDistributions } from "./holders";
+import { saveIssuanceChanges } from "./issuance";
+import {
+  processedEvents,
+  registerBatch,
+  serveMetrics,
+  unknownVersionErrors,
+} from "./metrics";
+import { checkNetwork } from "./processorState";
+import { reconcileIfDue, spotCheckIfDue } from "./reconcile";
+import { getReserveMovements, saveReserveMovements } from "./reserves";
+import { saveChainStateRollups } from "./rollups";
+import { decodeBalancesEventByFieldNames } from "./unknownVersions";
+
+// Every Balances event is recorded in the ledger, so all of them need
+// their position in the block and the extrinsic and call they came from
+const eventData = {
+  data: {
+    event: {
+      args: true,
+      indexInBlock: true,
+      extrinsic: { hash: true },
+      call: {},
+    },
+  },
+} as const;
 
 const processor = new SubstrateBatchProcessor()
   .setBatchSize(500)
   .setDataSource({
-    // Lookup archive by the network name in the Subsquid registry
-    archive: lookupArchive("calamari", { release: "FireSquid" }),
-    chain: "wss://salad.calamari.systems",
+    archive: config.archive,
+    chain: config.chain,
   })
-  // Decoding fails at 275_910-275_940, due to metadata V13, tranfers are only from multisig upgrade of wasm runtime (Not super important)
-  .setBlockRange({ from: 275_940 })
-  .addEvent("Balances.Endowed", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Transfer", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.BalanceSet", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Reserved", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Unreserved", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.ReserveRepatriated", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Deposit", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Withdraw", {
-    data: { event: { args: true } },
-  } as const)
-  .addEvent("Balances.Slashed", {
-    data: { event: { args: true } },
-  } as const)
+  .setBlockRange({ from: config.startBlock })
+  .addEvent("Balances.Endowed", eventData)
+  .addEvent("Balances.Transfer", eventData)
+  .addEvent("Balances.BalanceSet", eventData)
+  .addEvent("Balances.Reserved", eventData)
+  .addEvent("Balances.Unreserved", eventData)
+  .addEvent("Balances.ReserveRepatriated", eventData)
+  .addEvent("Balances.Deposit", eventData)
+  .addEvent("Balances.Withdraw", eventData)
+  .addEvent("Balances.Slashed", eventData)
   .includeAllBlocks();
 
 type Item = BatchProcessorItem<typeof processor>;
 type EventItem = BatchProcessorEventItem<typeof processor>;
 type Context = BatchContext<Store, Item>;
 
-processor.run(new TypeormDatabase(), processBalances);
+// Tests import the handler and run it on fixture blocks instead.
+if (require.main === module) {
+  const metrics =
+    config.metricsPort != null ? serveMetrics(config.metricsPort) : undefined;
+  Promise.resolve(metrics)
+    .then(() => processor.run(new AlertingDatabase(), processBalances))
+    .catch((e) => {
+      console.error(e);
+      process.exit(1);
+    });
+}
+
+interface EventRecord {
+  id: string;
+  blockNumber: number;
+  timestamp: Date;
+  eventIndex: number;
+  extrinsicHash?: string;
+  callName?: string;
+}
+
+interface TransferEvent extends EventRecord {
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+export interface DecodedBalanceEvent {
+  kind: BalanceEventKind;
+  account: string;
+  counterparty?: string;
+  amount: bigint;
+  reserved?: bigint;
+  destinationStatus?: BalanceStatus;
+}
+
+type BalanceEventRecord = EventRecord & DecodedBalanceEvent;
+
+interface UndecodedEventRecord extends EventRecord {
+  name: string;
+  specId: string;
+  args: unknown;
+  decoded: boolean;
+}
+
+interface BalancesBatch {
+  accountIdsHex: Set<string>;
+  transfers: TransferEvent[];
+  balanceEvents: BalanceEventRecord[];
+  undecodedEvents: UndecodedEventRecord[];
+}
+
+export async function processBalances(ctx: Context): Promise<void> {
+  const started = Date.now();
+  await checkNetwork(ctx);
+  await bootstrapIfNeeded(ctx);
+
+  // Balances are only indexed as of the end of what is processed at once,
+  // so the batch is split after every block ChainState is sampled at, for
+  // its holder distribution
+  const samples = await getSampledBlocks(ctx);
+  let start = 0;
+  for (let i = 0; i < ctx.blocks.length; i++) {
+    const header = ctx.blocks[i].header;
+    const sampled = samples.includes(header);
+    if (sampled || i == ctx.blocks.length - 1) {
+      const blocks = ctx.blocks.slice(start, i + 1);
+      await processBlocks({ ...ctx, blocks }, sampled ? [header] : []);
+      start = i + 1;
+    }
+  }
 
-async function processBalances(ctx: Context): Promise<void> {
-  const accountIdsHex = new Set<string>();
+  await registerBatch(ctx, (Date.now() - started) / 1000);
+}
+
+async function processBlocks(ctx: Context, samples: SubstrateBlock[]) {
+  const batch: BalancesBatch = {
+    accountIdsHex: new Set(),
+    transfers: [],
+    balanceEvents: [],
+    undecodedEvents: [],
+  };
 
   for (const block of ctx.blocks) {
     for (const item of block.items) {
       if (item.kind == "event") {
-        processBalancesEventItem(ctx, item, accountIdsHex);
+        processBalancesEventItem(ctx, block.header, item, batch);
       }
     }
   }
 
   const block = ctx.blocks[ctx.blocks.length - 1];
-  const accountIdsU8 = [...accountIdsHex].map((id) => decodeHex(id));
+  const accountIdsU8 = [...batch.accountIdsHex].map((id) => decodeHex(id));
+
+  const states = await saveChainStates(ctx, samples);
+  // The reserve ledger continues from the balances indexed before the batch
+  const reserveMovements = await getReserveMovements(ctx, batch.balanceEvents);
+  const endowments = getEndowments(batch.balanceEvents);
+  if (config.balanceSource == "events") {
+    await saveEventBalances(ctx, block.header, batch.balanceEvents, endowments);
+  } else {
+    const derived = config.deriveBalancesFromEvents
+      ? await deriveBalances(ctx, batch.balanceEvents)
+      : undefined;
+    await saveAccounts(ctx, block.header, accountIdsU8, endowments, derived);
+  }
+  await saveTransfers(ctx, batch.transfers);
+  await saveReserveMovements(ctx, reserveMovements);
+  await saveSlashesAndFees(ctx, batch.balanceEvents);
+  await saveHolderDistributions(ctx, states);
+  const issuanceChanges = await saveIssuanceChanges(ctx, batch.balanceEvents);
+  await saveBalanceEvents(ctx, batch.balanceEvents, issuanceChanges);
+  await saveUndecodedEvents(ctx, batch.undecodedEvents);
+  await saveChainStateRollups(ctx, batch.balanceEvents, states);
+  await spotCheckIfDue(ctx, accountIdsU8);
+  await reconcileIfDue(ctx);
+  await sendAlerts(ctx, batch.balanceEvents, issuanceChanges.values());
+}
 
-  await saveRegularChainState(ctx, block.header);
-  await saveAccounts(ctx, block.header, accountIdsU8);
+function getEndowments(balanceEvents: BalanceEventRecord[]) {
+  const endowments = new Map<string, number>();
+  for (const e of balanceEvents) {
+    if (e.kind == BalanceEventKind.Endowed) {
+      endowments.set(encodeId(decodeHex(e.account)), e.blockNumber);
+    }
+  }
+  return endowments;
 }
 
 function processBalancesEventItem(
   ctx: Context,
+  block: SubstrateBlock,
   item: EventItem,
-  accountIdsHex: Set<string>
+  batch: BalancesBatch
 ) {
-  switch (item.name) {
+  // Only the Balances events requested above are ever delivered
+  if (item.name == "*") return;
+  processedEvents.inc({ name: item.name });
+
+  const record: EventRecord = {
+    id: item.event.id,
+    blockNumber: block.height,
+    timestamp: new Date(block.timestamp),
+    eventIndex: item.event.indexInBlock,
+    extrinsicHash: item.event.extrinsic?.hash,
+    callName: item.event.call?.name,
+  };
+
+  let event: DecodedBalanceEvent | undefined;
+  try {
+    event = decodeBalancesEvent(ctx, item.event);
+  } catch (e) {
+    if (!(e instanceof UnknownVersionError)) throw e;
+    unknownVersionErrors.inc({ item: item.name });
+    if (config.unknownVersionPolicy == "strict") throw e;
+
+    event =
+      config.unknownVersionPolicy == "decode"
+        ? decodeBalancesEventByFieldNames(ctx, item.event)
+        : undefined;
+    batch.undecodedEvents.push({
+      ...record,
+      name: item.name,
+      specId: block.specId,
+      args: item.event.args,
+      decoded: event != null,
+    });
+    ctx.log.warn(`${e.message}, event ${item.event.id} recorded as undecoded`);
+  }
+  if (!event) return;
+
+  batch.accountIdsHex.add(event.account);
+  if (event.counterparty) batch.accountIdsHex.add(event.counterparty);
+  batch.balanceEvents.push({ ...record, ...event });
+
+  if (event.kind == BalanceEventKind.Transfer && event.counterparty) {
+    batch.transfers.push({
+      ...record,
+      from: event.account,
+      to: event.counterparty,
+      amount: event.amount,
+    });
+  }
+}
+
+function decodeBalancesEvent(
+  ctx: ChainContext,
+  event: Event
+): DecodedBalanceEvent | undefined {
+  switch (event.name) {
     case "Balances.BalanceSet": {
-      const account = getBalanceSetAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Endowed": {
-      const account = getEndowedAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Deposit": {
-      const account = getDepositAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Reserved": {
-      const account = getReservedAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Unreserved": {
-      const account = getUnreservedAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Withdraw": {
-      const account = getWithdrawAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
-    }
-    case "Balances.Slashed": {
-      const account = getSlashedAccount(ctx, item.event);
-      accountIdsHex.add(account);
-      break;
+      const { account, free, reserved } = getBalanceSetEvent(ctx, event);
+      return {
+        kind: BalanceEventKind.BalanceSet,
+        account,
+        amount: free,
+        reserved,
+      };
     }
+    case "Balances.Endowed":
+      return { kind: BalanceEventKind.Endowed, ...getEndowedEvent(ctx, event) };
+    case "Balances.Deposit":
+      return { kind: BalanceEventKind.Deposit, ...getDepositEvent(ctx, event) };
+    case "Balances.Reserved":
+      return {
+        kind: BalanceEventKind.Reserved,
+        ...getReservedEvent(ctx, event),
+      };
+    case "Balances.Unreserved":
+      return {
+        kind: BalanceEventKind.Unreserved,
+        ...getUnreservedEvent(ctx, event),
+      };
+    case "Balances.Withdraw":
+      return {
+        kind: BalanceEventKind.Withdraw,
+        ...getWithdrawEvent(ctx, event),
+      };
+    case "Balances.Slashed":
+      return { kind: BalanceEventKind.Slashed, ...getSlashedEvent(ctx, event) };
     case "Balances.Transfer": {
-      const accounts = getTransferAccounts(ctx, item.event);
-      accountIdsHex.add(accounts[0]);
-      accountIdsHex.add(accounts[1]);
-      break;
+      const { from, to, amount } = getTransferEvent(ctx, event);
+      return {
+        kind: BalanceEventKind.Transfer,
+        account: from,
+        counterparty: to,
+        amount,
+      };
     }
     case "Balances.ReserveRepatriated": {
-      const accounts = getReserveRepatriatedAccounts(ctx, item.event);
-      accountIdsHex.add(accounts[0]);
-      accountIdsHex.add(accounts[1]);
-      break;
+      const { from, to, amount, destinationStatus } =
+        getReserveRepatriatedEvent(ctx, event);
+      return {
+        kind: BalanceEventKind.ReserveRepatriated,
+        account: from,
+        counterparty: to,
+        amount,
+        destinationStatus,
+      };
     }
   }
 }
 
-function getBalanceSetAccount(ctx: ChainContext, event: Event) {
+function getBalanceSetEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesBalanceSetEvent(ctx, event);
 
   if (data.isV1) {
-    return toHex(data.asV1[0]);
+    const [who, free, reserved] = data.asV1;
+    return { account: toHex(who), free, reserved };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, free, reserved } = data.asV3110;
+    return { account: toHex(who), free, reserved };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getTransferAccounts(ctx: ChainContext, event: Event) {
+function getTransferEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesTransferEvent(ctx, event);
 
   if (data.isV1) {
-    return [toHex(data.asV1[0]), toHex(data.asV1[1])];
+    const [from, to, amount] = data.asV1;
+    return { from: toHex(from), to: toHex(to), amount };
   } else if (data.isV3110) {
-    return [toHex(data.asV3110.from), toHex(data.asV3110.to)];
+    const { from, to, amount } = data.asV3110;
+    return { from: toHex(from), to: toHex(to), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getEndowedAccount(ctx: ChainContext, event: Event) {
+function getEndowedEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesEndowedEvent(ctx, event);
 
   if (data.isV1) {
-    return toHex(data.asV1[0]);
+    const [account, freeBalance] = data.asV1;
+    return { account: toHex(account), amount: freeBalance };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.account);
+    const { account, freeBalance } = data.asV3110;
+    return { account: toHex(account), amount: freeBalance };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getDepositAccount(ctx: ChainContext, event: Event) {
+function getDepositEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesDepositEvent(ctx, event);
 
   if (data.isV1) {
-    return toHex(data.asV1[0]);
+    const [who, amount] = data.asV1;
+    return { account: toHex(who), amount };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, amount } = data.asV3110;
+    return { account: toHex(who), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getReservedAccount(ctx: ChainContext, event: Event) {
+function getReservedEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesReservedEvent(ctx, event);
 
   if (data.isV1) {
-    return toHex(data.asV1[0]);
+    const [who, amount] = data.asV1;
+    return { account: toHex(who), amount };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, amount } = data.asV3110;
+    return { account: toHex(who), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getUnreservedAccount(ctx: ChainContext, event: Event) {
+function getUnreservedEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesUnreservedEvent(ctx, event);
 
   if (data.isV1) {
-    return toHex(data.asV1[0]);
+    const [who, amount] = data.asV1;
+    return { account: toHex(who), amount };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, amount } = data.asV3110;
+    return { account: toHex(who), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getWithdrawAccount(ctx: ChainContext, event: Event) {
+function getWithdrawEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesWithdrawEvent(ctx, event);
 
   if (data.isV3100) {
-    return toHex(data.asV3100[0]);
+    const [who, amount] = data.asV3100;
+    return { account: toHex(who), amount };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, amount } = data.asV3110;
+    return { account: toHex(who), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getSlashedAccount(ctx: ChainContext, event: Event) {
+function getSlashedEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesSlashedEvent(ctx, event);
 
   if (data.isV3100) {
-    return toHex(data.asV3100[0]);
+    const [who, amount] = data.asV3100;
+    return { account: toHex(who), amount };
   } else if (data.isV3110) {
-    return toHex(data.asV3110.who);
+    const { who, amount } = data.asV3110;
+    return { account: toHex(who), amount };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-function getReserveRepatriatedAccounts(ctx: ChainContext, event: Event) {
+function getReserveRepatriatedEvent(ctx: ChainContext, event: Event) {
   const data = new BalancesReserveRepatriatedEvent(ctx, event);
 
   if (data.isV1) {
-    return [toHex(data.asV1[0]), toHex(data.asV1[1])];
+    const [from, to, amount, status] = data.asV1;
+    return {
+      from: toHex(from),
+      to: toHex(to),
+      amount,
+      destinationStatus: BalanceStatus[status.__kind],
+    };
   } else if (data.isV3110) {
-    return [toHex(data.asV3110.from), toHex(data.asV3110.to)];
+    const { from, to, amount, destinationStatus } = data.asV3110;
+    return {
+      from: toHex(from),
+      to: toHex(to),
+      amount,
+      destinationStatus: BalanceStatus[destinationStatus.__kind],
+    };
   } else {
     throw new UnknownVersionError(data.constructor.name);
   }
 }
 
-async function saveAccounts(
-  ctx: Context,
-  block: SubstrateBlock,
-  accountIds: Uint8Array[]
-) {
-  const balances = await getBalances(ctx, block, accountIds);
-  if (!balances) {
-    ctx.log.warn("No balances");
-    return;
-  }
-
-  const accounts = new Map<string, Account>();
-  const deletions = new Map<string, Account>();
-
-  for (let i = 0; i < accountIds.length; i++) {
-    const id = encodeId(accountIds[i]);
-    const balance = balances[i];
-
-    if (!balance) continue;
-    const total = balance.free + balance.reserved;
-    if (total > 0n) {
-      accounts.set(
-        id,
-        new Account({
-          id,
-          free: balance.free,
-          reserved: balance.reserved,
-          total,
-          updatedAt: block.height,
+async function saveTransfers(ctx: Context, transfers: TransferEvent[]) {
+  await ctx.store.insert(
+    transfers.map(
+      (t) =>
+        new Transfer({
+          id: t.id,
+          blockNumber: t.blockNumber,
+          timestamp: t.timestamp,
+          extrinsicHash: t.extrinsicHash,
+          from: new Account({ id: encodeId(decodeHex(t.from)) }),
+          to: new Account({ id: encodeId(decodeHex(t.to)) }),
+          amount: t.amount,
         })
-      );
-    } else {
-      deletions.set(id, new Account({ id }));
-    }
-  }
-
-  await ctx.store.save([...accounts.values()]);
-  await ctx.store.remove([...deletions.values()]);
+    )
+  );
 
-  ctx.log
-    .child("accounts")
-    .info(`updated: ${accounts.size}, deleted: ${deletions.size}`);
+  ctx.log.child("transfers").info(`inserted: ${transfers.length}`);
 }
 
-interface Balance {
-  free: bigint;
-  reserved: bigint;
-}
+async function saveBalanceEvents(
+  ctx: Context,
+  balanceEvents: BalanceEventRecord[],
+  issuanceChanges: Map<string, IssuanceChange>
+) {
+  await ctx.store.insert(
+    balanceEvents.map(
+      (e) =>
+        new BalanceEvent({
+          id: e.id,
+          kind: e.kind,
+          account: new Account({ id: encodeId(decodeHex(e.account)) }),
+          counterparty: e.counterparty
+            ? new Account({ id: encodeId(decodeHex(e.counterparty)) })
+            : undefined,
+          amount: e.amount,
+          reserved: e.reserved,
+          blockNumber: e.blockNumber,
+          timestamp: e.timestamp,
+          eventIndex: e.eventIndex,
+          extrinsicHash: e.extrinsicHash,
+          issuanceChange: issuanceChanges.get(e.id),
+        })
+    )
+  );
 
-async function getBalances(
-  ctx: ChainContext,
-  block: Block,
-  accounts: Uint8Array[]
-): Promise<Balance[] | undefined> {
-  return await getSystemAccountBalances(ctx, block, accounts);
+  ctx.log.child("ledger").info(`inserted: ${balanceEvents.length}`);
 }
 
-async function getSystemAccountBalances(
-  ctx: ChainContext,
-  block: Block,
-  accounts: Uint8Array[]
+async function saveUndecodedEvents(
+  ctx: Context,
+  undecodedEvents: UndecodedEventRecord[]
 ) {
-  const storage = new SystemAccountStorage(ctx, block);
-  if (!storage.isExists) return undefined;
+  if (undecodedEvents.length == 0) return;
+
+  await ctx.store.insert(
+    undecodedEvents.map(
+      (e) =>
+        new UndecodedEvent({
+          id: e.id,
+          name: e.name,
+          specId: e.specId,
+          args: e.args,
+          decoded: e.decoded,
+          blockNumber: e.blockNumber,
+          timestamp: e.timestamp,
+          eventIndex: e.eventIndex,
+          extrinsicHash: e.extrinsicHash,
+        })
+    )
+  );
 
-  if (storage.isV1) {
-    const data = await storage.getManyAsV1(accounts);
-    return data.map((d) => ({ free: d.data.free, reserved: d.data.reserved }));
-  } else {
-    const data = await storage.getManyAsV3(accounts);
-    return data.map((d) => ({ free: d.data.free, reserved: d.data.reserved }));
-  }
+  ctx.log.child("undecoded").warn(`inserted: ${undecodedEvents.length}`);
 }
 
 export class UnknownVersionError extends Error {
@@ -333,5 +547,9 @@ export class UnknownVersionError extends Error {
 }
 
 export function encodeId(id: Uint8Array) {
-  return ss58.codec("calamari").encode(id);
+  return ss58.codec(config.ss58Prefix).encode(id);
+}
+
+export function decodeId(id: string) {
+  return ss58.codec(config.ss58Prefix).decode(id);
 }
@@ -0,0 +1,34 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { config } from "./config";
+import { ProcessorState } from "./model";
+
+const PROCESSOR_STATE_ID = "processor";
+
+export async function getProcessorState(ctx: BatchContext<Store, unknown>) {
+  const state = await ctx.store.get(ProcessorState, PROCESSOR_STATE_ID);
+  return state ?? new ProcessorState({ id: PROCESSOR_STATE_ID });
+}
+
+let networkChecked = false;
+
+/**
+ * Records the configured network on the first run and refuses to continue
+ * when the database has been indexed for a different one.
+ */
+export async function checkNetwork(ctx: BatchContext<Store, unknown>) {
+  if (networkChecked) return;
+
+  const state = await getProcessorState(ctx);
+  if (state.network == null) {
+    state.network = config.network;
+    await ctx.store.save(state);
+  } else if (state.network != config.network) {
+    throw new Error(
+      `Database was indexed for ${state.network}, but NETWORK is ${config.network}. ` +
+        `Use a separate database or reset this one.`
+    );
+  }
+
+  networkChecked = true;
+}
@@ -0,0 +1,211 @@
+import { BatchContext, SubstrateBlock } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In, MoreThan } from "typeorm";
+import {
+  Balance,
+  getBalances,
+  getSystemAccountIds,
+  saveAccountBalances,
+} from "./accounts";
+import { Config, config } from "./config";
+import { Account, BalanceDiscrepancy, DiscrepancySource } from "./model";
+import { decodeId, encodeId } from "./processor";
+
+const PAGE_SIZE = 1000;
+
+let reconciledOnStart = false;
+
+/**
+ * Runs a reconciliation at the last block of the batch on the first batch
+ * after startup (if enabled), and whenever the batch crosses a multiple of
+ * the configured interval.
+ */
+export async function reconcileIfDue(ctx: BatchContext<Store, unknown>) {
+  const first = ctx.blocks[0].header;
+  const last = ctx.blocks[ctx.blocks.length - 1].header;
+
+  const onStart = config.reconcileOnStart && !reconciledOnStart;
+  const onInterval =
+    config.reconcileInterval > 0 &&
+    Math.floor(last.height / config.reconcileInterval) >
+      Math.floor((first.height - 1) / config.reconcileInterval);
+
+  if (onStart || onInterval) {
+    await reconcileAccounts(ctx, last);
+    reconciledOnStart = true;
+  }
+}
+
+/**
+ * Compares every `System.Account` entry with the indexed `Account` rows,
+ * fixes the ones that drifted and records a `BalanceDiscrepancy` for each.
+ */
+export async function reconcileAccounts(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock
+) {
+  const log = ctx.log.child("reconcile");
+  const seen = new Set<string>();
+  let checked = 0;
+  let drifted = 0;
+
+  for await (const accountIds of getSystemAccountIds(ctx, block, PAGE_SIZE)) {
+    const balances = await getBalances(ctx, block, accountIds);
+    if (!balances) {
+      log.warn("No balances");
+      return;
+    }
+
+    accountIds.forEach((id) => seen.add(encodeId(id)));
+    checked += accountIds.length;
+    drifted += await fixDrift(
+      ctx,
+      block,
+      accountIds,
+      balances,
+      DiscrepancySource.Reconciliation
+    );
+  }
+
+  // Accounts reaped without any event are gone from storage altogether
+  const missing = await ctx.store
+    .findBy(Account, { total: MoreThan(0n) })
+    .then((accounts) => accounts.filter((a) => !seen.has(a.id)));
+  if (missing.length > 0) {
+    const accountIds = missing.map((a) => decodeId(a.id));
+    const balances = await getBalances(ctx, block, accountIds);
+    if (balances) {
+      checked += accountIds.length;
+      drifted += await fixDrift(
+        ctx,
+        block,
+        accountIds,
+        balances,
+        DiscrepancySource.Reconciliation
+      );
+    }
+  }
+
+  log.info(`at block ${block.height} checked: ${checked}, fixed: ${drifted}`);
+}
+
+/**
+ * With BALANCE_SOURCE=events, compares the accounts the batch computed
+ * from events with `System.Account` at its last block whenever the batch
+ * crosses a multiple of the spot check interval. Mismatches are fixed and
+ * recorded as `BalanceDiscrepancy`s with the SpotCheck source, which is the
+ * report of event semantics that don't match the chain.
+ */
+export async function spotCheckIfDue(
+  ctx: BatchContext<Store, unknown>,
+  accountIds: Uint8Array[],
+  {
+    balanceSource,
+    spotCheckInterval,
+  }: Pick<Config, "balanceSource" | "spotCheckInterval"> = config
+) {
+  if (balanceSource != "events" || spotCheckInterval == 0) return;
+
+  const first = ctx.blocks[0].header;
+  const last = ctx.blocks[ctx.blocks.length - 1].header;
+  if (
+    Math.floor(last.height / spotCheckInterval) ==
+    Math.floor((first.height - 1) / spotCheckInterval)
+  )
+    return;
+
+  const balances = await getBalances(ctx, last, accountIds);
+  if (!balances) {
+    ctx.log.child("spot-check").warn("No balances");
+    return;
+  }
+
+  const mismatched = await fixDrift(
+    ctx,
+    last,
+    accountIds,
+    balances,
+    DiscrepancySource.SpotCheck
+  );
+  ctx.log
+    .child("spot-check")
+    .info(
+      `at block ${last.height} checked: ${accountIds.length}, mismatched: ${mismatched}`
+    );
+}
+
+async function fixDrift(
+  ctx: BatchContext<Store, unknown>,
+  block: SubstrateBlock,
+  accountIds: Uint8Array[],
+  balances: (Balance | undefined)[],
+  source: DiscrepancySource
+) {
+  const log = ctx.log.child(
+    source == DiscrepancySource.SpotCheck ? "spot-check" : "reconcile"
+  );
+  const ids = accountIds.map((id) => encodeId(id));
+  const indexed = await ctx.store
+    .findBy(Account, { id: In(ids) })
+    .then((accounts) => new Map(accounts.map((a) => [a.id, a])));
+
+  const driftedIds: Uint8Array[] = [];
+  const driftedBalances: Balance[] = [];
+  const discrepancies: BalanceDiscrepancy[] = [];
+
+  for (let i = 0; i < accountIds.length; i++) {
+    const balance = balances[i];
+    if (!balance) continue;
+
+    const account = indexed.get(ids[i]);
+    if (!isDrifted(account, balance)) continue;
+
+    driftedIds.push(accountIds[i]);
+    driftedBalances.push(balance);
+    // Event-sourced balances never see lock or nonce changes, only
+    // refresh those
+    if (
+      source == DiscrepancySource.SpotCheck &&
+      account?.free == balance.free &&
+      account.reserved == balance.reserved
+    )
+      continue;
+
+    discrepancies.push(
+      new BalanceDiscrepancy({
+        id: `${ids[i]}-${block.height}`,
+        account: new Account({ id: ids[i] }),
+        source,
+        blockNumber: block.height,
+        timestamp: new Date(block.timestamp),
+        indexedFree: account?.free,
+        indexedReserved: account?.reserved,
+        free: balance.free,
+        reserved: balance.reserved,
+      })
+    );
+    log.warn(
+      `${ids[i]} drifted: free ${account?.free} -> ${balance.free}, ` +
+        `reserved ${account?.reserved} -> ${balance.reserved}`
+    );
+  }
+
+  if (driftedIds.length > 0) {
+    await saveAccountBalances(ctx, block, driftedIds, driftedBalances);
+    await ctx.store.insert(discrepancies);
+  }
+
+  return discrepancies.length;
+}
+
+function isDrifted(account: Account | undefined, balance: Balance) {
+  if (!account) return balance.free + balance.reserved > 0n;
+
+  return (
+    account.free != balance.free ||
+    account.reserved != balance.reserved ||
+    account.miscFrozen != balance.miscFrozen ||
+    account.feeFrozen != balance.feeFrozen ||
+    account.nonce != balance.nonce
+  );
+}
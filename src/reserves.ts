@@ -0,0 +1,103 @@
+import { BatchContext, decodeHex } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { In } from "typeorm";
+import {
+  Account,
+  BalanceEventKind,
+  BalanceStatus,
+  ReserveMovement,
+  ReserveMovementKind,
+} from "./model";
+import { encodeId } from "./processor";
+
+interface ReserveEvent {
+  id: string;
+  kind: BalanceEventKind;
+  account: string;
+  counterparty?: string;
+  amount: bigint;
+  destinationStatus?: BalanceStatus;
+  blockNumber: number;
+  timestamp: Date;
+  extrinsicHash?: string;
+  callName?: string;
+}
+
+/**
+ * Turns Reserved, Unreserved and ReserveRepatriated events into
+ * `ReserveMovement`s, keeping a running reserved balance per account.
+ * The running balance starts from the indexed `Account.reserved`, so it
+ * has to be called before the batch refreshes the accounts.
+ */
+export async function getReserveMovements(
+  ctx: BatchContext<Store, unknown>,
+  events: ReserveEvent[]
+) {
+  const reserveEvents = events.filter(
+    (e) =>
+      e.kind == BalanceEventKind.Reserved ||
+      e.kind == BalanceEventKind.Unreserved ||
+      e.kind == BalanceEventKind.ReserveRepatriated
+  );
+  if (reserveEvents.length == 0) return [];
+
+  const ids = new Set<string>();
+  for (const event of reserveEvents) {
+    ids.add(encodeId(decodeHex(event.account)));
+    if (event.counterparty) ids.add(encodeId(decodeHex(event.counterparty)));
+  }
+  const reserved = await ctx.store
+    .findBy(Account, { id: In([...ids]) })
+    .then((accounts) => new Map(accounts.map((a) => [a.id, a.reserved])));
+
+  function move(id: string, amount: bigint) {
+    const after = (reserved.get(id) ?? 0n) + amount;
+    reserved.set(id, after);
+    return after;
+  }
+
+  return reserveEvents.map((event) => {
+    const account = encodeId(decodeHex(event.account));
+    const movement = new ReserveMovement({
+      id: event.id,
+      account: new Account({ id: account }),
+      amount: event.amount,
+      reason: event.callName,
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      extrinsicHash: event.extrinsicHash,
+    });
+
+    switch (event.kind) {
+      case BalanceEventKind.Reserved:
+        movement.kind = ReserveMovementKind.Reserved;
+        movement.reservedAfter = move(account, event.amount);
+        break;
+      case BalanceEventKind.Unreserved:
+        movement.kind = ReserveMovementKind.Unreserved;
+        movement.reservedAfter = move(account, -event.amount);
+        break;
+      default: {
+        const destination = encodeId(decodeHex(event.counterparty!));
+        movement.kind = ReserveMovementKind.Repatriated;
+        movement.reservedAfter = move(account, -event.amount);
+        movement.destination = new Account({ id: destination });
+        movement.destinationStatus = event.destinationStatus;
+        if (event.destinationStatus == BalanceStatus.Reserved) {
+          movement.destinationReservedAfter = move(destination, event.amount);
+        }
+      }
+    }
+
+    return movement;
+  });
+}
+
+export async function saveReserveMovements(
+  ctx: BatchContext<Store, unknown>,
+  movements: ReserveMovement[]
+) {
+  await ctx.store.insert(movements);
+
+  ctx.log.child("reserves").info(`inserted: ${movements.length}`);
+}
@@ -0,0 +1,116 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { LessThan } from "typeorm";
+import {
+  BalanceEventKind,
+  ChainState,
+  ChainStateDaily,
+  ChainStateHourly,
+} from "./model";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+interface RollupEvent {
+  kind: BalanceEventKind;
+  timestamp: Date;
+  amount: bigint;
+}
+
+type Rollup = ChainStateHourly | ChainStateDaily;
+
+interface RollupClass<R extends Rollup> {
+  new (props?: Partial<R>): R;
+}
+
+/**
+ * Folds the batch into the hourly and daily buckets. Buckets are read back
+ * from the database, so they stay correct across restarts.
+ */
+export async function saveChainStateRollups(
+  ctx: BatchContext<Store, unknown>,
+  events: RollupEvent[],
+  states: ChainState[]
+) {
+  // Buckets opened by this batch start from the last sample before it
+  const first = ctx.blocks[0].header;
+  const previous = await ctx.store.findOne(ChainState, {
+    where: { blockNumber: LessThan(states[0]?.blockNumber ?? first.height) },
+    order: { blockNumber: "DESC" },
+  });
+
+  await updateRollups(ctx, ChainStateHourly, HOUR, events, states, previous);
+  await updateRollups(ctx, ChainStateDaily, DAY, events, states, previous);
+}
+
+async function updateRollups<R extends Rollup>(
+  ctx: BatchContext<Store, unknown>,
+  entity: RollupClass<R>,
+  size: number,
+  events: RollupEvent[],
+  states: ChainState[],
+  previous: ChainState | undefined
+) {
+  const buckets = new Map<string, R>();
+  let latest = previous ?? states[0];
+
+  async function getBucket(timestamp: Date) {
+    const start = Math.floor(timestamp.getTime() / size) * size;
+    const id = new Date(start).toISOString();
+
+    let bucket = buckets.get(id) ?? (await ctx.store.get(entity, id));
+    if (!bucket) {
+      bucket = new entity({
+        id,
+        timestamp: new Date(start),
+        openTotalIssuance: latest?.totalIssuance ?? 0n,
+        closeTotalIssuance: latest?.totalIssuance ?? 0n,
+        minTokenHolders: latest?.tokenHolders ?? 0,
+        maxTokenHolders: latest?.tokenHolders ?? 0,
+        transferCount: 0,
+        transferVolume: 0n,
+        newAccounts: 0,
+      } as Partial<R>);
+    }
+    buckets.set(id, bucket);
+    return bucket;
+  }
+
+  async function addEvent(event: RollupEvent) {
+    if (event.kind == BalanceEventKind.Transfer) {
+      const bucket = await getBucket(event.timestamp);
+      bucket.transferCount += 1;
+      bucket.transferVolume += event.amount;
+    } else if (event.kind == BalanceEventKind.Endowed) {
+      const bucket = await getBucket(event.timestamp);
+      bucket.newAccounts += 1;
+    }
+  }
+
+  async function addState(state: ChainState) {
+    const bucket = await getBucket(state.timestamp);
+    bucket.closeTotalIssuance = state.totalIssuance;
+    if (state.tokenHolders < bucket.minTokenHolders) {
+      bucket.minTokenHolders = state.tokenHolders;
+    }
+    if (state.tokenHolders > bucket.maxTokenHolders) {
+      bucket.maxTokenHolders = state.tokenHolders;
+    }
+    latest = state;
+  }
+
+  // Events and samples are folded in chain order, so a bucket opens with
+  // the last sample taken before it
+  let i = 0;
+  for (const state of states) {
+    for (; i < events.length && events[i].timestamp <= state.timestamp; i++) {
+      await addEvent(events[i]);
+    }
+    await addState(state);
+  }
+  for (; i < events.length; i++) {
+    await addEvent(events[i]);
+  }
+
+  await ctx.store.save([...buckets.values()]);
+}
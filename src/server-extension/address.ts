@@ -0,0 +1,34 @@
+import * as ss58 from "@subsquid/ss58";
+import type { EntityManager } from "typeorm";
+
+/**
+ * Returns the hex public key of an SS58 address of any network, or of an
+ * 0x prefixed hex key.
+ */
+export function getPublicKey(address: string) {
+  if (/^0x[0-9a-fA-F]{64}$/.test(address)) return address.toLowerCase();
+
+  let bytes: Uint8Array | undefined;
+  try {
+    bytes = ss58.decode(address).bytes;
+  } catch (e) {}
+  if (bytes?.length != 32) {
+    throw new Error(`${address} is neither an SS58 address nor a hex key`);
+  }
+  return "0x" + Buffer.from(bytes).toString("hex");
+}
+
+/**
+ * Finds the stored id of the account with the given address, whatever
+ * network prefix it is encoded with.
+ */
+export async function getAccountId(
+  manager: EntityManager,
+  address: string
+): Promise<string | undefined> {
+  const [row]: { id: string }[] = await manager.query(
+    `SELECT id FROM account WHERE public_key = $1`,
+    [getPublicKey(address)]
+  );
+  return row?.id;
+}
@@ -0,0 +1,80 @@
+export interface LedgerBalance {
+  free: bigint;
+  reserved: bigint;
+}
+
+/**
+ * A `balance_event` row of the account or its counterparty, with the
+ * destination status of repatriated reserves from `reserve_movement`.
+ */
+export interface LedgerEvent {
+  kind: string;
+  account_id: string;
+  counterparty_id: string | null;
+  amount: string;
+  reserved: string | null;
+  destination_status: string | null;
+  block_number: number;
+  funded: boolean;
+}
+
+/**
+ * Applies the balance events that followed a snapshot to its balance, in
+ * chain order. Endowed only adds to the balance when no Deposit or
+ * Transfer of the same block funded the account, which emits it as well.
+ */
+export function applyLedgerEvents(
+  id: string,
+  balance: LedgerBalance,
+  events: LedgerEvent[]
+) {
+  for (const e of events) {
+    const amount = BigInt(e.amount);
+    const own = e.account_id == id;
+
+    switch (e.kind) {
+      case "Endowed":
+        if (!e.funded) balance.free += amount;
+        break;
+      case "Deposit":
+        balance.free += amount;
+        break;
+      case "Withdraw":
+        balance.free -= amount;
+        break;
+      case "Reserved":
+        balance.free -= amount;
+        balance.reserved += amount;
+        break;
+      case "Unreserved":
+        balance.reserved -= amount;
+        balance.free += amount;
+        break;
+      case "Slashed": {
+        // Slashes take from the free balance first
+        const free = amount < balance.free ? amount : balance.free;
+        balance.free -= free;
+        balance.reserved -= amount - free;
+        break;
+      }
+      case "BalanceSet":
+        balance.free = amount;
+        balance.reserved = BigInt(e.reserved ?? 0);
+        break;
+      case "Transfer":
+        if (own) balance.free -= amount;
+        if (e.counterparty_id == id) balance.free += amount;
+        break;
+      case "ReserveRepatriated":
+        if (own) balance.reserved -= amount;
+        if (e.counterparty_id != id) break;
+        if (e.destination_status == "Reserved") {
+          balance.reserved += amount;
+        } else {
+          balance.free += amount;
+        }
+        break;
+    }
+  }
+  return balance;
+}
@@ -0,0 +1,13 @@
+// Largest page of the custom queries, which openreader doesn't limit
+export const MAX_LIMIT = 1000;
+
+/**
+ * Returns the `limit` argument of a query, rejecting pages larger than
+ * `max`.
+ */
+export function checkLimit(limit: number, max = MAX_LIMIT) {
+  if (limit < 0 || limit > max) {
+    throw new Error(`limit must be from 0 to ${max}, got ${limit}`);
+  }
+  return limit;
+}
@@ -0,0 +1,93 @@
+import type { DataSource } from "typeorm";
+
+/**
+ * Context of custom resolvers, the part of the server's openreader
+ * context subscriptions poll with.
+ */
+export interface LiveContext {
+  openreader: {
+    subscriptionConnection: DataSource;
+    subscriptionPollInterval: number;
+  };
+}
+
+type Fetch<T> = (db: DataSource, after: number, height: number) => Promise<T[]>;
+
+/**
+ * Yields the rows `fetch` finds for every range of blocks the processor
+ * commits after the subscription started. Data is committed together with
+ * the processor height, so each row is pushed exactly once.
+ */
+export function pollNewBlocks<T>(
+  context: LiveContext,
+  fetch: Fetch<T>
+): AsyncIterableIterator<T[]> {
+  const { subscriptionConnection, subscriptionPollInterval } =
+    context.openreader;
+  return new BlockPoller(
+    subscriptionConnection,
+    subscriptionPollInterval,
+    fetch
+  );
+}
+
+// Written by hand like openreader's `Subscription`: a generator only sees
+// `return()` at a `yield`, so one waiting for matching rows would keep
+// polling after the client is gone
+class BlockPoller<T> implements AsyncIterableIterator<T[]> {
+  private after?: number;
+  private closed = false;
+  private timer?: NodeJS.Timeout;
+  private wake?: () => void;
+
+  constructor(
+    private db: DataSource,
+    private interval: number,
+    private fetch: Fetch<T>
+  ) {}
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  async next(): Promise<IteratorResult<T[]>> {
+    if (this.after == null) this.after = await getProcessorHeight(this.db);
+
+    while (!this.closed) {
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+        this.timer = setTimeout(resolve, this.interval);
+      });
+      if (this.closed) break;
+
+      const height = await getProcessorHeight(this.db);
+      if (height <= this.after) continue;
+
+      const rows = await this.fetch(this.db, this.after, height);
+      this.after = height;
+      if (rows.length > 0 && !this.closed) return { done: false, value: rows };
+    }
+    return { done: true, value: undefined };
+  }
+
+  async return(): Promise<IteratorResult<T[]>> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.wake?.();
+    return { done: true, value: undefined };
+  }
+}
+
+async function getProcessorHeight(db: DataSource): Promise<number> {
+  let rows: { height: number }[];
+  try {
+    rows = await db.query(
+      `SELECT height FROM squid_processor.status WHERE id = 0`
+    );
+  } catch (e) {
+    // The processor creates its status table when it first connects
+    if ((e as { code?: string }).code == "42P01") return -1;
+    throw e;
+  }
+  return rows.length > 0 ? Number(rows[0].height) : -1;
+}
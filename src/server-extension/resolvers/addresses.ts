@@ -0,0 +1,39 @@
+import { Arg, Field, ObjectType, Query, Resolver } from "type-graphql";
+import type { EntityManager } from "typeorm";
+import { getAccountId, getPublicKey } from "../address";
+
+@ObjectType()
+export class AccountAddress {
+  constructor(props: Partial<AccountAddress>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, {
+    nullable: false,
+    description: "Id the account is stored under",
+  })
+  id!: string;
+
+  @Field(() => String, { nullable: false })
+  publicKey!: string;
+}
+
+@Resolver()
+export class AddressResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  @Query(() => AccountAddress, {
+    nullable: true,
+    description:
+      "Looks up an account by an SS58 address of any network or a hex public key",
+  })
+  async lookupAddress(
+    @Arg("address") address: string
+  ): Promise<AccountAddress | null> {
+    const manager = await this.tx();
+    const id = await getAccountId(manager, address);
+    if (!id) return null;
+
+    return new AccountAddress({ id, publicKey: getPublicKey(address) });
+  }
+}
@@ -0,0 +1,205 @@
+import { Arg, Field, Int, ObjectType, Query, Resolver } from "type-graphql";
+import type { EntityManager } from "typeorm";
+import { getAccountId } from "../address";
+import { applyLedgerEvents, LedgerEvent } from "../ledger";
+
+@ObjectType()
+export class BalanceAt {
+  constructor(props: Partial<BalanceAt>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, { nullable: false })
+  account!: string;
+
+  @Field(() => Int, {
+    nullable: true,
+    description:
+      "Block of the snapshot the balance starts from, null when the account has none at or before the block",
+  })
+  blockNumber!: number | null;
+
+  @Field(() => Int, {
+    nullable: false,
+    description:
+      "Balance events between the snapshot and the block applied to its balance",
+  })
+  eventsApplied!: number;
+
+  @Field(() => BigInt, { nullable: false })
+  free!: bigint;
+
+  @Field(() => BigInt, { nullable: false })
+  reserved!: bigint;
+
+  @Field(() => BigInt, { nullable: false })
+  frozen!: bigint;
+
+  @Field(() => BigInt, { nullable: false })
+  total!: bigint;
+}
+
+@ObjectType()
+export class AccountSummary {
+  constructor(props: Partial<AccountSummary>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, { nullable: false })
+  account!: string;
+
+  @Field(() => BigInt, { nullable: false })
+  total!: bigint;
+
+  @Field(() => BigInt, {
+    nullable: false,
+    description: "Sum of transfers to the account",
+  })
+  inflow!: bigint;
+
+  @Field(() => BigInt, {
+    nullable: false,
+    description: "Sum of transfers from the account",
+  })
+  outflow!: bigint;
+
+  @Field(() => Int, { nullable: false })
+  transfersIn!: number;
+
+  @Field(() => Int, { nullable: false })
+  transfersOut!: number;
+
+  @Field(() => Int, { nullable: true })
+  firstTransferBlock!: number | null;
+
+  @Field(() => Int, { nullable: true })
+  lastTransferBlock!: number | null;
+}
+
+@Resolver()
+export class BalanceResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  @Query(() => BalanceAt, {
+    nullable: true,
+    description:
+      "Balance of the account at the given block: its latest snapshot at or before the block, with the balance events after the snapshot applied. Snapshots are taken at the last block of every batch that changed the account. Events can't tell which balance a slash took from (free first is assumed), nothing reports changes of locks, which are frozen as of the snapshot, nor the fees of runtimes without Withdraw events",
+  })
+  async balanceAt(
+    @Arg("account") account: string,
+    @Arg("block", () => Int) block: number
+  ): Promise<BalanceAt | null> {
+    const manager = await this.tx();
+    const id = await getAccountId(manager, account);
+    if (!id) return null;
+
+    const [row]: {
+      block_number: number;
+      free: string;
+      reserved: string;
+      frozen: string;
+    }[] = await manager.query(
+      `
+      SELECT block_number, free, reserved, frozen
+      FROM account_balance_snapshot
+      WHERE account_id = $1 AND block_number <= $2
+      ORDER BY block_number DESC
+      LIMIT 1
+      `,
+      [id, block]
+    );
+
+    const events: LedgerEvent[] = await manager.query(
+      `
+      SELECT e.kind, e.account_id, e.counterparty_id, e.amount, e.reserved,
+        m.destination_status, e.block_number,
+        e.kind = 'Endowed' AND EXISTS (
+          SELECT 1 FROM balance_event f
+          WHERE f.block_number = e.block_number AND (
+            (f.kind = 'Deposit' AND f.account_id = e.account_id) OR
+            (f.kind = 'Transfer' AND f.counterparty_id = e.account_id)
+          )
+        ) AS funded
+      FROM balance_event e
+      LEFT JOIN reserve_movement m ON m.id = e.id
+      WHERE (e.account_id = $1 OR e.counterparty_id = $1)
+        AND e.block_number > $2 AND e.block_number <= $3
+      ORDER BY e.block_number, e.event_index
+      `,
+      [id, row?.block_number ?? -1, block]
+    );
+    if (!row && events.length == 0) return null;
+
+    const balance = applyLedgerEvents(
+      id,
+      {
+        free: BigInt(row?.free ?? 0),
+        reserved: BigInt(row?.reserved ?? 0),
+      },
+      events
+    );
+    return new BalanceAt({
+      account: id,
+      blockNumber: row?.block_number ?? null,
+      eventsApplied: events.length,
+      free: balance.free,
+      reserved: balance.reserved,
+      frozen: BigInt(row?.frozen ?? 0),
+      total: balance.free + balance.reserved,
+    });
+  }
+
+  @Query(() => AccountSummary, { nullable: true })
+  async accountSummary(
+    @Arg("id") address: string
+  ): Promise<AccountSummary | null> {
+    const manager = await this.tx();
+    const id = await getAccountId(manager, address);
+    if (!id) return null;
+
+    const [row]: {
+      total: string;
+      inflow: string;
+      outflow: string;
+      transfers_in: number;
+      transfers_out: number;
+      first_block: number | null;
+      last_block: number | null;
+    }[] = await manager.query(
+      `
+      SELECT a.total, i.inflow, o.outflow, i.transfers_in, o.transfers_out,
+        LEAST(i.first_block, o.first_block) AS first_block,
+        GREATEST(i.last_block, o.last_block) AS last_block
+      FROM account a,
+      LATERAL (
+        SELECT COALESCE(SUM(amount), 0) AS inflow,
+          COUNT(*)::int AS transfers_in,
+          MIN(block_number) AS first_block,
+          MAX(block_number) AS last_block
+        FROM transfer WHERE to_id = a.id
+      ) i,
+      LATERAL (
+        SELECT COALESCE(SUM(amount), 0) AS outflow,
+          COUNT(*)::int AS transfers_out,
+          MIN(block_number) AS first_block,
+          MAX(block_number) AS last_block
+        FROM transfer WHERE from_id = a.id
+      ) o
+      WHERE a.id = $1
+      `,
+      [id]
+    );
+    if (!row) return null;
+
+    return new AccountSummary({
+      account: id,
+      total: BigInt(row.total),
+      inflow: BigInt(row.inflow),
+      outflow: BigInt(row.outflow),
+      transfersIn: row.transfers_in,
+      transfersOut: row.transfers_out,
+      firstTransferBlock: row.first_block,
+      lastTransferBlock: row.last_block,
+    });
+  }
+}
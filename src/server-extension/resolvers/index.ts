@@ -0,0 +1,5 @@
+export { AddressResolver } from "./addresses";
+export { BalanceResolver } from "./balances";
+export { LeaderboardResolver } from "./leaderboard";
+export { LiveResolver } from "./subscriptions";
+export { TransferResolver } from "./transfers";
@@ -0,0 +1,81 @@
+import { Arg, Field, Int, ObjectType, Query, Resolver } from "type-graphql";
+import type { EntityManager } from "typeorm";
+import { checkLimit } from "../limit";
+
+// Ranks kept with every HolderDistribution, LEADERBOARD_SIZE of the
+// processor, so the previous rank of every entry is known
+const LEADERBOARD_SIZE = 100;
+
+@ObjectType()
+export class LeaderboardEntry {
+  constructor(props: Partial<LeaderboardEntry>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, { nullable: false })
+  account!: string;
+
+  @Field(() => Int, { nullable: false })
+  rank!: number;
+
+  @Field(() => BigInt, { nullable: false })
+  total!: bigint;
+
+  @Field(() => Int, {
+    nullable: true,
+    description:
+      "Rank at the last distribution at or before the since block, null if the account wasn't a top holder then",
+  })
+  previousRank!: number | null;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: "Places gained since then, negative when the account fell",
+  })
+  rankChange!: number | null;
+}
+
+@Resolver()
+export class LeaderboardResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  @Query(() => [LeaderboardEntry])
+  async leaderboard(
+    @Arg("limit", () => Int, { defaultValue: 100 }) limit: number,
+    @Arg("since", () => Int, { nullable: true }) since?: number
+  ): Promise<LeaderboardEntry[]> {
+    const manager = await this.tx();
+    const rows: {
+      id: string;
+      rank: number;
+      total: string;
+      previous_rank: number | null;
+    }[] = await manager.query(
+      `
+      SELECT a.id, a.rank, a.total, p.rank AS previous_rank
+      FROM account a
+      LEFT JOIN holder_rank p ON p.account_id = a.id AND p.distribution_id = (
+        SELECT d.id FROM holder_distribution d
+        WHERE d.block_number <= $2
+        ORDER BY d.block_number DESC
+        LIMIT 1
+      )
+      WHERE a.rank <= $1
+      ORDER BY a.rank
+      `,
+      [checkLimit(limit, LEADERBOARD_SIZE), since ?? -1]
+    );
+
+    return rows.map(
+      (row) =>
+        new LeaderboardEntry({
+          account: row.id,
+          rank: row.rank,
+          total: BigInt(row.total),
+          previousRank: row.previous_rank,
+          rankChange:
+            row.previous_rank == null ? null : row.previous_rank - row.rank,
+        })
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import {
+  Arg,
+  Field,
+  Int,
+  ObjectType,
+  Resolver,
+  Root,
+  Subscription,
+} from "type-graphql";
+import { getPublicKey } from "../address";
+import { LiveContext, pollNewBlocks } from "../live";
+import { BalanceAt } from "./balances";
+import { TransferEntry, TransferRow, toTransferEntry } from "./transfers";
+
+@ObjectType()
+export class ChainStateEntry {
+  constructor(props: Partial<ChainStateEntry>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, { nullable: false })
+  id!: string;
+
+  @Field(() => Int, { nullable: false })
+  blockNumber!: number;
+
+  @Field(() => Date, { nullable: false })
+  timestamp!: Date;
+
+  @Field(() => BigInt, { nullable: false })
+  totalIssuance!: bigint;
+
+  @Field(() => Int, { nullable: false })
+  tokenHolders!: number;
+}
+
+interface AccountsArgs {
+  accounts?: string[] | null;
+}
+
+@Resolver()
+export class LiveResolver {
+  @Subscription(() => [TransferEntry], {
+    description:
+      "Transfers of every processed batch, only those from or to the given accounts if any",
+    subscribe: (_root, args: AccountsArgs, context: LiveContext) => {
+      const keys = args.accounts?.map(getPublicKey);
+      return pollNewBlocks(context, (db, after, height) =>
+        db.query(
+          `
+          SELECT t.id, t.block_number, t.timestamp, t.extrinsic_hash,
+            t.from_id, t.to_id, t.amount
+          FROM transfer t
+          JOIN account f ON f.id = t.from_id
+          JOIN account r ON r.id = t.to_id
+          WHERE t.block_number > $1 AND t.block_number <= $2
+            AND ($3::text[] IS NULL OR f.public_key = ANY($3) OR r.public_key = ANY($3))
+          ORDER BY t.block_number, t.id
+          `,
+          [after, height, keys ?? null]
+        )
+      );
+    },
+  })
+  newTransfers(
+    @Root() rows: TransferRow[],
+    @Arg("accounts", () => [String], { nullable: true })
+    _accounts?: string[]
+  ): TransferEntry[] {
+    return rows.map(toTransferEntry);
+  }
+
+  @Subscription(() => [BalanceAt], {
+    description: "Balances of the given accounts whenever they change",
+    subscribe: (_root, args: AccountsArgs, context: LiveContext) => {
+      const keys = args.accounts!.map(getPublicKey);
+      return pollNewBlocks(context, (db, after, height) =>
+        db.query(
+          `
+          SELECT s.account_id, s.block_number, s.free, s.reserved, s.frozen, s.total
+          FROM account_balance_snapshot s
+          JOIN account a ON a.id = s.account_id
+          WHERE s.block_number > $1 AND s.block_number <= $2
+            AND a.public_key = ANY($3)
+          ORDER BY s.block_number, s.account_id
+          `,
+          [after, height, keys]
+        )
+      );
+    },
+  })
+  balanceChanges(
+    @Root()
+    rows: {
+      account_id: string;
+      block_number: number;
+      free: string;
+      reserved: string;
+      frozen: string;
+      total: string;
+    }[],
+    @Arg("accounts", () => [String]) _accounts: string[]
+  ): BalanceAt[] {
+    return rows.map(
+      (row) =>
+        new BalanceAt({
+          account: row.account_id,
+          blockNumber: row.block_number,
+          free: BigInt(row.free),
+          reserved: BigInt(row.reserved),
+          frozen: BigInt(row.frozen),
+          total: BigInt(row.total),
+        })
+    );
+  }
+
+  @Subscription(() => [ChainStateEntry], {
+    description: "ChainState samples as they are indexed",
+    subscribe: (_root, _args, context: LiveContext) =>
+      pollNewBlocks(context, (db, after, height) =>
+        db.query(
+          `
+          SELECT id, block_number, timestamp, total_issuance, token_holders
+          FROM chain_state
+          WHERE block_number > $1 AND block_number <= $2
+          ORDER BY block_number
+          `,
+          [after, height]
+        )
+      ),
+  })
+  newChainStates(
+    @Root()
+    rows: {
+      id: string;
+      block_number: number;
+      timestamp: Date;
+      total_issuance: string;
+      token_holders: number;
+    }[]
+  ): ChainStateEntry[] {
+    return rows.map(
+      (row) =>
+        new ChainStateEntry({
+          id: row.id,
+          blockNumber: row.block_number,
+          timestamp: row.timestamp,
+          totalIssuance: BigInt(row.total_issuance),
+          tokenHolders: row.token_holders,
+        })
+    );
+  }
+}
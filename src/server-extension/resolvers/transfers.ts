@@ -0,0 +1,88 @@
+import { Arg, Field, Int, ObjectType, Query, Resolver } from "type-graphql";
+import type { EntityManager } from "typeorm";
+import { getAccountId } from "../address";
+import { checkLimit } from "../limit";
+
+@ObjectType()
+export class TransferEntry {
+  constructor(props: Partial<TransferEntry>) {
+    Object.assign(this, props);
+  }
+
+  @Field(() => String, { nullable: false })
+  id!: string;
+
+  @Field(() => Int, { nullable: false })
+  blockNumber!: number;
+
+  @Field(() => Date, { nullable: false })
+  timestamp!: Date;
+
+  @Field(() => String, { nullable: true })
+  extrinsicHash!: string | null;
+
+  @Field(() => String, { nullable: false })
+  from!: string;
+
+  @Field(() => String, { nullable: false })
+  to!: string;
+
+  @Field(() => BigInt, { nullable: false })
+  amount!: bigint;
+}
+
+export interface TransferRow {
+  id: string;
+  block_number: number;
+  timestamp: Date;
+  extrinsic_hash: string | null;
+  from_id: string;
+  to_id: string;
+  amount: string;
+}
+
+export function toTransferEntry(row: TransferRow) {
+  return new TransferEntry({
+    id: row.id,
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    extrinsicHash: row.extrinsic_hash,
+    from: row.from_id,
+    to: row.to_id,
+    amount: BigInt(row.amount),
+  });
+}
+
+@Resolver()
+export class TransferResolver {
+  constructor(private tx: () => Promise<EntityManager>) {}
+
+  @Query(() => [TransferEntry], {
+    description:
+      "Transfers between two accounts in either direction, newest first",
+  })
+  async transfersBetween(
+    @Arg("a") a: string,
+    @Arg("b") b: string,
+    @Arg("limit", () => Int, { defaultValue: 100 }) limit: number,
+    @Arg("offset", () => Int, { defaultValue: 0 }) offset: number
+  ): Promise<TransferEntry[]> {
+    const manager = await this.tx();
+    const from = await getAccountId(manager, a);
+    const to = await getAccountId(manager, b);
+    if (!from || !to) return [];
+
+    const rows: TransferRow[] = await manager.query(
+      `
+      SELECT id, block_number, timestamp, extrinsic_hash, from_id, to_id, amount
+      FROM transfer
+      WHERE (from_id = $1 AND to_id = $2) OR (from_id = $2 AND to_id = $1)
+      ORDER BY block_number DESC, id DESC
+      LIMIT $3 OFFSET $4
+      `,
+      [from, to, checkLimit(limit), offset]
+    );
+
+    return rows.map(toTransferEntry);
+  }
+}
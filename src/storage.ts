@@ -0,0 +1,96 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import { config } from "./config";
+import {
+  storageQueryDuration,
+  storageQueryFailures,
+  storageQueryRetries,
+} from "./metrics";
+
+type Logger = BatchContext<Store, unknown>["log"];
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Runs `query` over chunks of `config.storageChunkSize` keys, at most
+ * `config.storageConcurrency` at a time, and returns the values in the
+ * order of `keys`. A failed chunk is retried with a growing delay before
+ * the whole call fails. `item` names the storage item in metrics.
+ */
+export async function queryInChunks<K, V>(
+  log: Logger,
+  item: string,
+  keys: K[],
+  query: (chunk: K[]) => Promise<V[]>
+): Promise<V[]> {
+  const chunks: K[][] = [];
+  for (let i = 0; i < keys.length; i += config.storageChunkSize) {
+    chunks.push(keys.slice(i, i + config.storageChunkSize));
+  }
+
+  const started = Date.now();
+  const results = await mapConcurrently(chunks, (chunk) =>
+    queryWithRetries(log, item, chunk, query)
+  );
+
+  if (chunks.length > 0) {
+    log.info(
+      `${keys.length} keys in ${chunks.length} queries, ${
+        Date.now() - started
+      } ms`
+    );
+  }
+  return results.flat();
+}
+
+/**
+ * Calls `fn` for every item, at most `config.storageConcurrency` at a time,
+ * and returns the results in the order of `items`.
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function work() {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  }
+
+  const workers = Math.min(config.storageConcurrency, items.length);
+  await Promise.all(Array.from({ length: workers }, work));
+  return results;
+}
+
+async function queryWithRetries<K, V>(
+  log: Logger,
+  item: string,
+  chunk: K[],
+  query: (chunk: K[]) => Promise<V[]>
+) {
+  for (let attempt = 1; ; attempt++) {
+    const timer = storageQueryDuration.startTimer({ item });
+    try {
+      const values = await query(chunk);
+      timer();
+      return values;
+    } catch (e) {
+      if (attempt == MAX_ATTEMPTS) {
+        storageQueryFailures.inc({ item });
+        throw e;
+      }
+      storageQueryRetries.inc({ item });
+      log.warn(
+        `query of ${chunk.length} keys failed (attempt ${attempt}): ${e}`
+      );
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1))
+      );
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { toHex } from "@subsquid/substrate-processor";
+import { BalanceEventKind } from "./model";
+import type { DecodedBalanceEvent } from "./processor";
+import { ChainContext, Event } from "./types/generated/support";
+
+/**
+ * What to do when a runtime upgrade introduces a type the generated
+ * classes don't recognise:
+ *
+ * - `strict` fails the batch with `UnknownVersionError`
+ * - `skip` records the event as an `UndecodedEvent` and moves on
+ * - `decode` also records it, but still indexes whatever can be read
+ *   by field name
+ */
+export type UnknownVersionPolicy = "strict" | "skip" | "decode";
+
+/**
+ * Decodes the event against the chain metadata and reads the usual Balances
+ * field names (`who`, `account`, `from`, `to`, `amount`, ...). Returns
+ * `undefined` when the event has unnamed fields or the values don't look
+ * like an account and a balance.
+ */
+export function decodeBalancesEventByFieldNames(
+  ctx: ChainContext,
+  event: Event
+): DecodedBalanceEvent | undefined {
+  const kind = event.name.split(".")[1] as BalanceEventKind;
+  if (!Object.values(BalanceEventKind).includes(kind)) return undefined;
+
+  let data: unknown;
+  try {
+    data = ctx._chain.decodeEvent(event);
+  } catch (e) {
+    return undefined;
+  }
+  if (data == null || typeof data != "object" || Array.isArray(data)) {
+    return undefined;
+  }
+
+  const fields = data as Record<string, unknown>;
+  const account = fields.who ?? fields.account ?? fields.from;
+  const counterparty = fields.to;
+  const amount = fields.amount ?? fields.freeBalance ?? fields.free;
+  const reserved = fields.reserved;
+
+  if (!(account instanceof Uint8Array) || typeof amount != "bigint") {
+    return undefined;
+  }
+  if (counterparty != null && !(counterparty instanceof Uint8Array)) {
+    return undefined;
+  }
+
+  return {
+    kind,
+    account: toHex(account),
+    counterparty: counterparty ? toHex(counterparty) : undefined,
+    amount,
+    reserved: typeof reserved == "bigint" ? reserved : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+import { BatchContext, SubstrateBlock } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import * as assert from "assert/strict";
+import { Balance, saveAccountBalances } from "../src/accounts";
+import { Account, AccountBalanceSnapshot, AccountStatus } from "../src/model";
+import { encodeId } from "../src/processor";
+import { TestLogger } from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ID = new Uint8Array(32).fill(1);
+
+function header(height: number) {
+  return { height, timestamp: height * 12_000 } as SubstrateBlock;
+}
+
+function balance(free: bigint, reserved = 0n): Balance {
+  return {
+    free,
+    reserved,
+    miscFrozen: 0n,
+    feeFrozen: 0n,
+    nonce: 0,
+    consumers: 0,
+    providers: free > 0n ? 1 : 0,
+  };
+}
+
+describe("saveAccountBalances", () => {
+  const store = new MemoryStore();
+  const ctx = {
+    store: store as unknown as Store,
+    log: new TestLogger(),
+  } as unknown as BatchContext<Store, unknown>;
+
+  async function save(height: number, b: Balance, endowedAt?: number) {
+    const endowments = new Map<string, number>();
+    if (endowedAt != null) endowments.set(encodeId(ID), endowedAt);
+    await saveAccountBalances(ctx, header(height), [ID], [b], endowments);
+    return store.get(Account, encodeId(ID)) as Promise<Account>;
+  }
+
+  it("creates accounts at their endowment", async () => {
+    const account = await save(10, balance(100n), 9);
+    assert.equal(account.status, AccountStatus.Active);
+    assert.equal(account.createdAt, 9);
+    assert.equal(account.transferable, 100n);
+  });
+
+  it("reaps and reactivates accounts", async () => {
+    const reaped = await save(20, balance(0n));
+    assert.equal(reaped.status, AccountStatus.Reaped);
+    assert.equal(reaped.reapedAt, 20);
+    assert.equal(reaped.createdAt, 9);
+
+    // Still empty, so it stays reaped since the first block it was empty
+    assert.equal((await save(25, balance(0n))).reapedAt, 20);
+
+    const revived = await save(30, balance(5n, 1n), 30);
+    assert.equal(revived.status, AccountStatus.Active);
+    assert.equal(revived.createdAt, 30);
+    assert.equal(revived.total, 6n);
+  });
+
+  it("snapshots every change", () => {
+    assert.deepEqual(
+      store.all(AccountBalanceSnapshot).map((s) => [s.blockNumber, s.delta]),
+      [
+        [10, 100n],
+        [20, -100n],
+        [25, 0n],
+        [30, 6n],
+      ]
+    );
+  });
+});
@@ -0,0 +1,254 @@
+import * as assert from "assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import {
+  AlertRules,
+  deliverAlerts,
+  loadAlertRules,
+  sendAlerts,
+} from "../src/alerts";
+import { ConfigError } from "../src/config";
+import {
+  Alert,
+  AlertStatus,
+  BalanceEventKind,
+  IssuanceChange,
+} from "../src/model";
+import { createBatchContext, loadFixture } from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ALICE =
+  "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d";
+const BOB =
+  "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48";
+
+const T = 10n ** 12n;
+
+const common = {
+  blockNumber: 100,
+  timestamp: new Date(1_600_000_000_000),
+};
+
+const EVENTS = [
+  {
+    id: "100-1",
+    kind: BalanceEventKind.Transfer,
+    account: ALICE,
+    counterparty: BOB,
+    amount: 10n * T,
+    ...common,
+  },
+  {
+    id: "100-2",
+    kind: BalanceEventKind.Transfer,
+    account: ALICE,
+    counterparty: BOB,
+    amount: 9n * T,
+    ...common,
+  },
+  {
+    id: "100-3",
+    kind: BalanceEventKind.Slashed,
+    account: BOB,
+    amount: T,
+    ...common,
+  },
+  {
+    id: "100-4",
+    kind: BalanceEventKind.Deposit,
+    account: BOB,
+    amount: 50n * T,
+    ...common,
+  },
+];
+
+const ISSUANCE_CHANGES = [
+  new IssuanceChange({
+    id: "100",
+    ...common,
+    totalIssuance: 1000n * T,
+    delta: 5n * T,
+    minted: 0n,
+    burned: 0n,
+    mismatch: true,
+  }),
+  new IssuanceChange({
+    id: "101",
+    ...common,
+    blockNumber: 101,
+    totalIssuance: 1001n * T,
+    delta: T,
+    minted: T,
+    burned: 0n,
+    mismatch: false,
+  }),
+];
+
+/**
+ * Webhook that keeps the alerts it accepts and rejects the requests
+ * listed in `failing`, by their number.
+ */
+class MockWebhook {
+  requests = 0;
+  alerts: { id: string; rule: string; message: string }[] = [];
+  failing = new Set<number>();
+  private server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      if (this.failing.has(++this.requests)) {
+        res.writeHead(503).end();
+        return;
+      }
+      this.alerts.push(JSON.parse(body));
+      res.writeHead(204).end();
+    });
+  });
+
+  get url() {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://localhost:${port}/alerts`;
+  }
+
+  listen() {
+    return new Promise<void>((resolve) => this.server.listen(0, resolve));
+  }
+
+  close() {
+    return new Promise((resolve) => this.server.close(resolve));
+  }
+}
+
+describe("alerts", () => {
+  const webhook = new MockWebhook();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "alerts-"));
+  let rules: AlertRules;
+
+  function writeConfig(name: string, json: unknown) {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, JSON.stringify(json));
+    return file;
+  }
+
+  before(async () => {
+    await webhook.listen();
+    rules = loadAlertRules(
+      writeConfig("alerts.json", {
+        webhooks: [webhook.url],
+        transfer: { minAmount: "10" },
+        slash: {},
+        issuance: { maxDelta: "100" },
+      })
+    );
+  });
+
+  after(async () => {
+    await webhook.close();
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  // Processes a batch with the events, or without any, and delivers its
+  // alerts the way the database does once the batch commits
+  async function send(store: MemoryStore, events = true) {
+    const ctx = createBatchContext(store, loadFixture("calamari-v1"));
+    await sendAlerts(
+      ctx,
+      events ? EVENTS : [],
+      events ? ISSUANCE_CHANGES : [],
+      rules
+    );
+    await deliverAlerts(10);
+  }
+
+  function statuses(store: MemoryStore) {
+    return store.all(Alert).map((a) => [a.id, a.status]);
+  }
+
+  it("reads the rules of the config file", () => {
+    assert.deepEqual(rules, {
+      webhooks: [webhook.url],
+      transfer: { minAmount: 10n * T },
+      slash: { minAmount: 0n },
+      issuance: { maxDelta: 100n * T, onMismatch: true },
+    });
+
+    const invalid = [
+      { webhooks: ["localhost:8080"] },
+      { webhooks: [webhook.url], transfer: { minAmount: "-1" } },
+      { webhooks: [webhook.url], issuance: "on" },
+      { webhooks: [webhook.url], issuance: { onMismatch: "yes" } },
+    ];
+    for (const json of invalid) {
+      const file = writeConfig("invalid.json", json);
+      assert.throws(() => loadAlertRules(file), ConfigError);
+    }
+  });
+
+  it("posts the alerts of the rules the batch matches", async () => {
+    const store = new MemoryStore();
+    await send(store);
+
+    const alerts = new Map(webhook.alerts.map((a) => [a.id, a]));
+    assert.deepEqual([...alerts.keys()].sort(), [
+      "issuance-100",
+      "slash-100-3",
+      "transfer-100-1",
+    ]);
+    assert.match(alerts.get("transfer-100-1")!.message, /^10 transferred/);
+    assert.match(alerts.get("issuance-100")!.message, /add up to 0$/);
+
+    // Deliveries are saved with the next batch
+    assert.ok(statuses(store).every(([, s]) => s == AlertStatus.Pending));
+    await send(store, false);
+    assert.deepEqual(statuses(store), [
+      ["issuance-100", AlertStatus.Delivered],
+      ["slash-100-3", AlertStatus.Delivered],
+      ["transfer-100-1", AlertStatus.Delivered],
+    ]);
+  });
+
+  it("sends alerts once, also after a restart", async () => {
+    const store = new MemoryStore();
+    await send(store);
+    await send(store, false);
+
+    // Saved alerts are what a restarted processor finds in its database
+    const requests = webhook.requests;
+    await send(store);
+    assert.equal(webhook.requests, requests);
+    assert.equal(store.all(Alert).length, 3);
+  });
+
+  it("retries failed deliveries", async () => {
+    webhook.alerts = [];
+    webhook.failing = new Set([webhook.requests + 1, webhook.requests + 2]);
+    const requests = webhook.requests;
+    await send(new MemoryStore());
+
+    // Two attempts failed, each alert was delivered once
+    assert.equal(webhook.requests - requests, 5);
+    assert.equal(new Set(webhook.alerts.map((a) => a.id)).size, 3);
+  });
+
+  it("keeps undelivered alerts pending for later batches", async () => {
+    webhook.alerts = [];
+    // Every attempt of the first alert fails
+    webhook.failing = new Set([1, 2, 3, 4, 5].map((n) => webhook.requests + n));
+    const store = new MemoryStore();
+    await send(store);
+    assert.equal(webhook.alerts.length, 2);
+
+    await send(store, false);
+    assert.equal(webhook.alerts.length, 3);
+    assert.deepEqual(
+      statuses(store).filter(([, s]) => s == AlertStatus.Pending).length,
+      1
+    );
+
+    await send(store, false);
+    assert.ok(statuses(store).every(([, s]) => s == AlertStatus.Delivered));
+  });
+});
@@ -0,0 +1,106 @@
+import { decodeHex } from "@subsquid/substrate-processor";
+import * as assert from "assert/strict";
+import { deriveBalances } from "../src/derivedBalances";
+import {
+  Account,
+  AccountStatus,
+  BalanceEventKind,
+  BalanceStatus,
+} from "../src/model";
+import { encodeId } from "../src/processor";
+import { createBatchContext, loadFixture } from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ALICE =
+  "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d";
+const BOB =
+  "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48";
+const CHARLIE =
+  "0x90b5ab205c6974c9ea841be688864633dc9ca8a357843eeacf2314649965fe22";
+
+function account(id: string, free: bigint, reserved = 0n) {
+  return new Account({
+    id: encodeId(decodeHex(id)),
+    free,
+    reserved,
+    total: free + reserved,
+    miscFrozen: 0n,
+    feeFrozen: 0n,
+    nonce: 1,
+    consumers: 0,
+    providers: 1,
+    status: AccountStatus.Active,
+  });
+}
+
+describe("deriveBalances", () => {
+  async function derive(fixture: string, events: any[]) {
+    const store = new MemoryStore();
+    await store.save([account(ALICE, 100n), account(BOB, 50n, 10n)]);
+    return deriveBalances(
+      createBatchContext(store, loadFixture(fixture)),
+      events
+    );
+  }
+
+  it("applies the events to the indexed balances", async () => {
+    const derived = await derive("calamari-v3110", [
+      {
+        kind: BalanceEventKind.Transfer,
+        account: ALICE,
+        counterparty: BOB,
+        amount: 30n,
+      },
+      { kind: BalanceEventKind.Reserved, account: ALICE, amount: 9n },
+      {
+        kind: BalanceEventKind.ReserveRepatriated,
+        account: BOB,
+        counterparty: ALICE,
+        amount: 10n,
+        destinationStatus: BalanceStatus.Reserved,
+      },
+    ]);
+
+    const alice = derived.get(ALICE)!;
+    assert.deepEqual([alice.free, alice.reserved, alice.nonce], [61n, 19n, 1]);
+    const bob = derived.get(BOB)!;
+    assert.deepEqual([bob.free, bob.reserved], [80n, 0n]);
+  });
+
+  it("leaves unexplained changes to storage queries", async () => {
+    const derived = await derive("calamari-v3110", [
+      // Not indexed yet, and the sender depends on it
+      {
+        kind: BalanceEventKind.Transfer,
+        account: ALICE,
+        counterparty: CHARLIE,
+        amount: 1n,
+      },
+      { kind: BalanceEventKind.Slashed, account: BOB, amount: 1n },
+    ]);
+    assert.equal(derived.size, 0);
+  });
+
+  it("queries fee payers, whose nonce and locks may have changed", async () => {
+    const derived = await derive("calamari-v3110", [
+      { kind: BalanceEventKind.Withdraw, account: ALICE, amount: 1n },
+      {
+        kind: BalanceEventKind.Transfer,
+        account: ALICE,
+        counterparty: BOB,
+        amount: 30n,
+      },
+    ]);
+
+    assert.equal(derived.has(ALICE), false);
+    const bob = derived.get(BOB)!;
+    assert.deepEqual([bob.free, bob.reserved], [80n, 10n]);
+  });
+
+  it("queries every account before fees were evented", async () => {
+    const derived = await derive("calamari-v1", [
+      { kind: BalanceEventKind.Deposit, account: ALICE, amount: 1n },
+    ]);
+    assert.equal(derived.size, 0);
+  });
+});
@@ -0,0 +1,125 @@
+import { decodeHex } from "@subsquid/substrate-processor";
+import * as assert from "assert/strict";
+import { bootstrapAccounts } from "../src/bootstrap";
+import { saveEventBalances } from "../src/eventBalances";
+import {
+  Account,
+  AccountBalanceSnapshot,
+  AccountStatus,
+  BalanceDiscrepancy,
+  BalanceEventKind,
+  DiscrepancySource,
+} from "../src/model";
+import { encodeId } from "../src/processor";
+import { spotCheckIfDue } from "../src/reconcile";
+import {
+  createBatchContext,
+  fromSecondBlock,
+  loadFixture,
+} from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ALICE =
+  "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d";
+const BOB =
+  "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48";
+const CHARLIE =
+  "0x90b5ab205c6974c9ea841be688864633dc9ca8a357843eeacf2314649965fe22";
+
+const T = 10n ** 12n;
+
+describe("event-sourced balances", () => {
+  const store = new MemoryStore();
+  const fixture = loadFixture("calamari-v1");
+  const ctx = createBatchContext(store, fixture);
+  const block = ctx.blocks[ctx.blocks.length - 1].header;
+
+  async function get(id: string) {
+    return (await store.get(Account, encodeId(decodeHex(id))))!;
+  }
+
+  it("applies the events of the batch", async () => {
+    await saveEventBalances(
+      ctx,
+      block,
+      [
+        { kind: BalanceEventKind.Deposit, account: ALICE, amount: 100n * T },
+        { kind: BalanceEventKind.Deposit, account: BOB, amount: 50n * T },
+        { kind: BalanceEventKind.Endowed, account: CHARLIE, amount: 10n * T },
+        {
+          kind: BalanceEventKind.Transfer,
+          account: ALICE,
+          counterparty: CHARLIE,
+          amount: 10n * T,
+        },
+        { kind: BalanceEventKind.Reserved, account: ALICE, amount: 5n * T },
+        { kind: BalanceEventKind.Reserved, account: BOB, amount: 10n * T },
+        // Takes all of the free balance and some of the reserved
+        { kind: BalanceEventKind.Slashed, account: BOB, amount: 42n * T },
+      ],
+      new Map([[encodeId(decodeHex(CHARLIE)), 100]])
+    );
+
+    const alice = await get(ALICE);
+    assert.deepEqual([alice.free, alice.reserved], [85n * T, 5n * T]);
+    const bob = await get(BOB);
+    assert.deepEqual([bob.free, bob.reserved], [0n, 8n * T]);
+    const charlie = await get(CHARLIE);
+    assert.equal(charlie.total, 10n * T);
+    assert.equal(charlie.createdAt, 100);
+    assert.equal(charlie.status, AccountStatus.Active);
+  });
+
+  it("applies the events of the first block once after the bootstrap", async () => {
+    const store = new MemoryStore();
+    const ctx = createBatchContext(store, fromSecondBlock(fixture), [fixture]);
+    const first = ctx.blocks[0].header;
+    await bootstrapAccounts(ctx);
+
+    await saveEventBalances(
+      ctx,
+      first,
+      [
+        { kind: BalanceEventKind.Endowed, account: CHARLIE, amount: 10n * T },
+        {
+          kind: BalanceEventKind.Transfer,
+          account: ALICE,
+          counterparty: CHARLIE,
+          amount: 10n * T,
+        },
+      ],
+      new Map([[encodeId(decodeHex(CHARLIE)), first.height]])
+    );
+
+    // Balances of block 100, not of the block before with its events twice
+    const free = new Map(store.all(Account).map((a) => [a.id, a.free]));
+    assert.equal(free.get(encodeId(decodeHex(ALICE))), 90n * T);
+    assert.equal(free.get(encodeId(decodeHex(BOB))), 50n * T);
+    assert.equal(free.get(encodeId(decodeHex(CHARLIE))), 10n * T);
+  });
+
+  it("reports and fixes mismatches found by spot checks", async () => {
+    await spotCheckIfDue(ctx, [ALICE, BOB, CHARLIE].map(decodeHex), {
+      balanceSource: "events",
+      spotCheckInterval: 100,
+    });
+
+    const discrepancies = store.all(BalanceDiscrepancy);
+    assert.equal(discrepancies.length, 1);
+    assert.equal(discrepancies[0].source, DiscrepancySource.SpotCheck);
+    assert.equal(discrepancies[0].account.id, encodeId(decodeHex(BOB)));
+    assert.equal(discrepancies[0].indexedReserved, 8n * T);
+
+    const bob = await get(BOB);
+    assert.deepEqual([bob.free, bob.reserved], [52n * T, 0n]);
+
+    // The fix is saved over the snapshot of the same block, which still
+    // counts from the balance before it
+    const snapshot = await store.get(
+      AccountBalanceSnapshot,
+      `${bob.id}-${block.height}`
+    );
+    assert.equal(snapshot?.total, 52n * T);
+    assert.equal(snapshot?.delta, 52n * T);
+  });
+});
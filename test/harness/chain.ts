@@ -0,0 +1,191 @@
+import { decodeHex } from "@subsquid/substrate-processor";
+import { Chain, Event } from "../../src/types/generated/support";
+
+/**
+ * Hand-written events and storage of a range of blocks of one runtime
+ * version, along with the type hashes of its metadata as the generated
+ * types know them. Values are written the way the archive and the chain
+ * node return them: accounts as hex, balances as decimal strings.
+ */
+export interface ChainFixture {
+  specId: string;
+  metadata: {
+    events: Record<string, string>;
+    storage: Record<string, string>;
+  };
+  blocks: BlockFixture[];
+}
+
+export interface BlockFixture {
+  height: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  events: EventFixture[];
+  storage: {
+    "Balances.TotalIssuance"?: string;
+    // Every non-empty account at the block, by hex account id
+    "System.Account": Record<string, unknown>;
+  };
+}
+
+export interface EventFixture {
+  name: string;
+  args: unknown;
+  indexInBlock: number;
+  extrinsicHash?: string;
+  call?: string;
+}
+
+// twox128("System") ++ twox128("Account")
+const SYSTEM_ACCOUNT_PREFIX =
+  "0x26aa394eea5630e07c48ae0c9558cef7b99d880ec681799c0cf30e8886371da9";
+
+const EMPTY_ACCOUNT = {
+  nonce: 0,
+  consumers: 0,
+  providers: 0,
+  sufficients: 0,
+  data: { free: 0n, reserved: 0n, miscFrozen: 0n, feeFrozen: 0n },
+};
+
+/**
+ * Replays a `ChainFixture` through the `Chain` interface the generated
+ * types use. Storage can be read at any block of `earlier` fixtures, so a
+ * batch can look at the blocks before it.
+ */
+export class FakeChain implements Chain {
+  readonly client = {
+    call: async (method: string, params: unknown[]) =>
+      this.call(method, params),
+  };
+
+  private storage = new Map<string, BlockFixture["storage"]>();
+
+  constructor(private fixture: ChainFixture, earlier: ChainFixture[]) {
+    for (const f of [...earlier, fixture]) {
+      for (const block of f.blocks) this.storage.set(block.hash, block.storage);
+    }
+  }
+
+  getEventHash(eventName: string): string {
+    const hash = this.fixture.metadata.events[eventName];
+    if (!hash) {
+      throw new Error(`${eventName} is not in ${this.fixture.specId}`);
+    }
+    return hash;
+  }
+
+  decodeEvent(event: Event): any {
+    return decodeValue(event.args);
+  }
+
+  getCallHash(name: string): string {
+    throw new Error(`Fixtures have no calls, ${name} was requested`);
+  }
+
+  decodeCall(): any {
+    throw new Error("Fixtures have no calls");
+  }
+
+  getStorageItemTypeHash(prefix: string, name: string) {
+    return this.fixture.metadata.storage[`${prefix}.${name}`];
+  }
+
+  async getStorage(
+    blockHash: string,
+    prefix: string,
+    name: string,
+    ...args: any[]
+  ): Promise<any> {
+    if (`${prefix}.${name}` == "System.Account") {
+      return this.getAccount(blockHash, args[0]);
+    }
+    return decodeValue(this.getBlockStorage(blockHash, `${prefix}.${name}`));
+  }
+
+  async queryStorage(
+    blockHash: string,
+    prefix: string,
+    name: string,
+    keyList?: any[][]
+  ): Promise<any[]> {
+    if (`${prefix}.${name}` != "System.Account" || keyList == null) {
+      throw new Error(`Querying ${prefix}.${name} is not supported`);
+    }
+    return keyList.map(([key]) => this.getAccount(blockHash, key));
+  }
+
+  getConstantTypeHash(): string | undefined {
+    return undefined;
+  }
+
+  getConstant(pallet: string, name: string): any {
+    throw new Error(
+      `Fixtures have no constants, ${pallet}.${name} was requested`
+    );
+  }
+
+  private getAccount(blockHash: string, key: Uint8Array) {
+    const accounts = this.getBlockStorage(blockHash, "System.Account");
+    const account = (accounts as Record<string, unknown>)[toHex(key)];
+    return account ? decodeValue(account) : EMPTY_ACCOUNT;
+  }
+
+  private getBlockStorage(blockHash: string, item: string) {
+    const storage = this.storage.get(blockHash) as
+      | Record<string, unknown>
+      | undefined;
+    if (storage?.[item] == null) {
+      throw new Error(`${item} is not in the fixture of ${blockHash}`);
+    }
+    return storage[item];
+  }
+
+  private call(method: string, params: unknown[]) {
+    if (method != "state_getKeysPaged") {
+      throw new Error(`RPC method ${method} is not supported`);
+    }
+
+    const [prefix, count, startKey, blockHash] = params as [
+      string,
+      number,
+      string,
+      string
+    ];
+    if (prefix != SYSTEM_ACCOUNT_PREFIX) {
+      throw new Error(`Listing keys of ${prefix} is not supported`);
+    }
+    const accounts = this.getBlockStorage(blockHash, "System.Account");
+
+    // The blake2_128 part of the key is zeroed, the id follows it
+    return Object.keys(accounts as object)
+      .map((id) => SYSTEM_ACCOUNT_PREFIX + "00".repeat(16) + id.slice(2))
+      .sort()
+      .filter((key) => key > startKey)
+      .slice(0, count);
+  }
+}
+
+/**
+ * Turns fixture JSON into the values the generated types expect:
+ * 32 byte hex strings into account ids and decimal strings into bigints.
+ */
+export function decodeValue(value: unknown): any {
+  if (typeof value == "string") {
+    if (/^0x[0-9a-fA-F]{64}$/.test(value)) return decodeHex(value);
+    if (/^\d+$/.test(value)) return BigInt(value);
+    return value;
+  }
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value != null && typeof value == "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, decodeValue(v)])
+    );
+  }
+  return value;
+}
+
+function toHex(bytes: Uint8Array) {
+  return "0x" + Buffer.from(bytes).toString("hex");
+}
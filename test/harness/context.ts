@@ -0,0 +1,96 @@
+import { BatchContext } from "@subsquid/substrate-processor";
+import { Store } from "@subsquid/typeorm-store";
+import * as fs from "fs";
+import * as path from "path";
+import { ChainFixture, EventFixture, FakeChain } from "./chain";
+import { MemoryStore } from "./store";
+
+export function loadFixture(name: string): ChainFixture {
+  const file = path.join(__dirname, "../fixtures", `${name}.json`);
+  return JSON.parse(fs.readFileSync(file, "utf8"));
+}
+
+/**
+ * The fixture without its first block, so that a batch starts at a block
+ * with events and the first block is only the state before it. Pass the
+ * whole fixture as an earlier one to keep that state readable.
+ */
+export function fromSecondBlock(fixture: ChainFixture): ChainFixture {
+  return { ...fixture, blocks: fixture.blocks.slice(1) };
+}
+
+/**
+ * Logger that keeps the messages instead of printing them.
+ */
+export class TestLogger {
+  messages: { level: string; message: string }[] = [];
+
+  child() {
+    return this;
+  }
+
+  trace() {}
+  debug() {}
+  info(message: string) {
+    this.messages.push({ level: "info", message });
+  }
+  warn(message: string) {
+    this.messages.push({ level: "warn", message });
+  }
+  error(message: string) {
+    this.messages.push({ level: "error", message });
+  }
+}
+
+/**
+ * Builds the batch context the processor would get for all blocks of the
+ * fixture, the way the archive delivers them. `earlier` are fixtures of
+ * earlier batches whose storage stays readable.
+ */
+export function createBatchContext(
+  store: MemoryStore | Store,
+  fixture: ChainFixture,
+  earlier: ChainFixture[] = []
+) {
+  const blocks = fixture.blocks.map((block) => {
+    const header = {
+      id: `${pad(block.height, 10)}-${block.hash.slice(2, 7)}`,
+      height: block.height,
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: block.timestamp,
+      specId: fixture.specId,
+    };
+    return {
+      header,
+      items: block.events.map((event) => ({
+        kind: "event",
+        name: event.name,
+        event: toEvent(header.id, event),
+      })),
+    };
+  });
+
+  return {
+    _chain: new FakeChain(fixture, earlier),
+    log: new TestLogger(),
+    store: store as unknown as Store,
+    blocks,
+  } as unknown as BatchContext<Store, any>;
+}
+
+function toEvent(blockId: string, event: EventFixture) {
+  const [height, hash] = blockId.split("-");
+  return {
+    id: `${height}-${pad(event.indexInBlock, 6)}-${hash}`,
+    name: event.name,
+    args: event.args,
+    indexInBlock: event.indexInBlock,
+    extrinsic: event.extrinsicHash ? { hash: event.extrinsicHash } : undefined,
+    call: event.call ? { name: event.call } : undefined,
+  };
+}
+
+function pad(n: number, length: number) {
+  return String(n).padStart(length, "0");
+}
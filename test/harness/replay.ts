@@ -0,0 +1,44 @@
+import { TypeormDatabase } from "@subsquid/typeorm-store";
+import * as path from "path";
+import { ChainFixture } from "./chain";
+import { createBatchContext, fromSecondBlock, loadFixture } from "./context";
+
+/**
+ * Runs the compiled processor over the given fixtures, one batch each,
+ * against the database configured by the DB_* variables, the way
+ * `processor.run` commits batches. Runs in its own process, as the
+ * processor keeps some state per process.
+ *
+ *   node -r ts-node/register/transpile-only test/harness/replay.ts calamari-v1 ...
+ */
+async function replay(names: string[]) {
+  // The store only knows the entity classes of the compiled model
+  const {
+    processBalances,
+  }: typeof import("../../src/processor") = require(path.join(
+    __dirname,
+    "../../lib/processor"
+  ));
+
+  const db = new TypeormDatabase();
+  await db.connect();
+
+  const earlier: ChainFixture[] = [];
+  for (const name of names) {
+    const fixture = loadFixture(name);
+    // The first batch is bootstrapped from the first block of its fixture
+    const batch = earlier.length == 0 ? fromSecondBlock(fixture) : fixture;
+    const heights = batch.blocks.map((b) => b.height);
+    earlier.push(fixture);
+    await db.transact(heights[0], heights[heights.length - 1], (store) =>
+      processBalances(createBatchContext(store, batch, earlier))
+    );
+  }
+
+  await db.close();
+}
+
+replay(process.argv.slice(2)).catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+import { FindOperator } from "typeorm";
+
+interface Entity {
+  id: string;
+}
+
+type EntityClass<E> = new (props?: Partial<E>) => E;
+
+type Where<E> = { [K in keyof E]?: unknown };
+
+interface FindOptions<E> {
+  where?: Where<E>;
+  order?: { [K in keyof E]?: "ASC" | "DESC" };
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * In-memory stand-in for the typeorm `Store`, supporting the find operators
+ * the processor uses. Entities are copied in and out, so changes only
+ * persist when they are saved, as with the database.
+ */
+export class MemoryStore {
+  private tables = new Map<Function, Map<string, Entity>>();
+
+  async save<E extends Entity>(entities: E | E[]) {
+    for (const e of toArray(entities)) {
+      this.table(e.constructor).set(e.id, copy(e));
+    }
+  }
+
+  async insert<E extends Entity>(entities: E | E[]) {
+    for (const e of toArray(entities)) {
+      const table = this.table(e.constructor);
+      if (table.has(e.id)) {
+        throw new Error(`duplicate ${e.constructor.name} ${e.id}`);
+      }
+      table.set(e.id, copy(e));
+    }
+  }
+
+  async remove<E extends Entity>(entities: E | E[]) {
+    for (const e of toArray(entities)) {
+      this.table(e.constructor).delete(e.id);
+    }
+  }
+
+  async get<E extends Entity>(entityClass: EntityClass<E>, id: string) {
+    const e = this.table(entityClass).get(id);
+    return e && (copy(e) as E);
+  }
+
+  async count<E extends Entity>(
+    entityClass: EntityClass<E>,
+    options?: FindOptions<E>
+  ) {
+    return (await this.find(entityClass, options)).length;
+  }
+
+  async countBy<E extends Entity>(
+    entityClass: EntityClass<E>,
+    where: Where<E>
+  ) {
+    return this.count(entityClass, { where });
+  }
+
+  async find<E extends Entity>(
+    entityClass: EntityClass<E>,
+    options: FindOptions<E> = {}
+  ): Promise<E[]> {
+    let rows = [...this.table(entityClass).values()] as E[];
+    const { where, order } = options;
+    if (where) rows = rows.filter((e) => matches(e, where));
+    if (order) rows.sort((a, b) => compareBy(a, b, order));
+
+    const skip = options.skip ?? 0;
+    return rows
+      .slice(skip, options.take == null ? undefined : skip + options.take)
+      .map((e) => copy(e));
+  }
+
+  async findBy<E extends Entity>(entityClass: EntityClass<E>, where: Where<E>) {
+    return this.find(entityClass, { where });
+  }
+
+  async findOne<E extends Entity>(
+    entityClass: EntityClass<E>,
+    options: FindOptions<E>
+  ): Promise<E | undefined> {
+    const [e] = await this.find(entityClass, { ...options, take: 1 });
+    return e;
+  }
+
+  async findOneBy<E extends Entity>(
+    entityClass: EntityClass<E>,
+    where: Where<E>
+  ) {
+    return this.findOne(entityClass, { where });
+  }
+
+  /**
+   * Every stored entity of the class, ordered by id.
+   */
+  all<E extends Entity>(entityClass: EntityClass<E>): E[] {
+    return [...this.table(entityClass).values()]
+      .sort((a, b) => compare(a.id, b.id))
+      .map((e) => copy(e) as E);
+  }
+
+  private table(entityClass: Function) {
+    let table = this.tables.get(entityClass);
+    if (!table) {
+      table = new Map();
+      this.tables.set(entityClass, table);
+    }
+    return table;
+  }
+}
+
+function toArray<E>(entities: E | E[]) {
+  return Array.isArray(entities) ? entities : [entities];
+}
+
+function copy<E extends object>(e: E): E {
+  return Object.assign(Object.create(Object.getPrototypeOf(e)), e);
+}
+
+function matches(e: object, where: Record<string, unknown>) {
+  return Object.entries(where).every(([key, condition]) =>
+    test(condition, (e as Record<string, unknown>)[key])
+  );
+}
+
+function test(condition: unknown, value: unknown): boolean {
+  if (!(condition instanceof FindOperator)) return equals(condition, value);
+
+  const operand = condition.value;
+  switch (condition.type) {
+    case "equal":
+      return equals(operand, value);
+    case "in":
+      return (operand as unknown[]).some((v) => equals(v, value));
+    case "not":
+      return !test(operand, value);
+    case "isNull":
+      return value == null;
+    case "lessThan":
+      return value != null && compare(value, operand) < 0;
+    case "lessThanOrEqual":
+      return value != null && compare(value, operand) <= 0;
+    case "moreThan":
+      return value != null && compare(value, operand) > 0;
+    case "moreThanOrEqual":
+      return value != null && compare(value, operand) >= 0;
+    default:
+      throw new Error(`${condition.type} is not supported by MemoryStore`);
+  }
+}
+
+function equals(a: unknown, b: unknown) {
+  return compare(a, b) == 0;
+}
+
+function compare(a: any, b: any): number {
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+  // Relations are compared by the id of the referenced entity
+  if (a != null && typeof a == "object" && "id" in a) a = a.id;
+  if (b != null && typeof b == "object" && "id" in b) b = b.id;
+
+  if (a == b) return 0;
+  // Nulls sort last, as they do in Postgres
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return a < b ? -1 : 1;
+}
+
+function compareBy(a: any, b: any, order: Record<string, string | undefined>) {
+  for (const [key, direction] of Object.entries(order)) {
+    const result = compare(a[key], b[key]);
+    if (result != 0) return direction == "DESC" ? -result : result;
+  }
+  return 0;
+}
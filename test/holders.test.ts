@@ -0,0 +1,82 @@
+import { decodeHex } from "@subsquid/substrate-processor";
+import * as assert from "assert/strict";
+import { saveHolderDistributions } from "../src/holders";
+import {
+  Account,
+  AccountStatus,
+  ChainState,
+  HolderDistribution,
+  HolderRank,
+} from "../src/model";
+import { encodeId } from "../src/processor";
+import { createBatchContext, loadFixture } from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ALICE = encodeId(
+  decodeHex(
+    "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d"
+  )
+);
+const BOB = encodeId(
+  decodeHex(
+    "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48"
+  )
+);
+
+const T = 10n ** 12n;
+
+describe("holder distributions", () => {
+  const fixture = loadFixture("calamari-v1");
+
+  function sample(height: number) {
+    const block = fixture.blocks.find((b) => b.height == height)!;
+    return new ChainState({
+      id: `${height}`,
+      blockNumber: height,
+      timestamp: new Date(block.timestamp),
+    });
+  }
+
+  async function createStore() {
+    const store = new MemoryStore();
+    await store.insert([
+      new Account({ id: ALICE, total: 10n * T, status: AccountStatus.Active }),
+      new Account({ id: BOB, total: 20n * T, status: AccountStatus.Active }),
+    ]);
+    return store;
+  }
+
+  it("ranks holders at a sample of the last block", async () => {
+    const store = await createStore();
+    await saveHolderDistributions(createBatchContext(store, fixture), [
+      sample(101),
+    ]);
+
+    const [distribution] = store.all(HolderDistribution);
+    assert.equal(distribution.blockNumber, 101);
+    assert.equal(distribution.holders, 2);
+    assert.deepEqual(
+      store.all(HolderRank).map((r) => [r.account.id, r.rank]),
+      [
+        [BOB, 1],
+        [ALICE, 2],
+      ]
+    );
+    assert.equal((await store.get(Account, BOB))!.rank, 1);
+  });
+
+  it("skips samples before the last block", async () => {
+    const store = await createStore();
+    const ctx = createBatchContext(store, fixture);
+
+    await saveHolderDistributions(ctx, [sample(99), sample(100)]);
+    assert.equal(store.all(HolderDistribution).length, 0);
+    assert.equal((await store.get(Account, BOB))!.rank, undefined);
+
+    await saveHolderDistributions(ctx, [sample(100), sample(101)]);
+    assert.deepEqual(
+      store.all(HolderDistribution).map((d) => d.blockNumber),
+      [101]
+    );
+  });
+});
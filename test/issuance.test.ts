@@ -0,0 +1,83 @@
+import * as assert from "assert/strict";
+import { saveIssuanceChanges } from "../src/issuance";
+import { BalanceEventKind, IssuanceChange } from "../src/model";
+import { createBatchContext, loadFixture } from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const T = 10n ** 12n;
+
+describe("issuance changes", () => {
+  it("catches moves without mint or burn events across batches", async () => {
+    const store = new MemoryStore();
+    const fixture = loadFixture("calamari-v1");
+
+    // TotalIssuance stays put up to block 100 and grows by 2 at block 101,
+    // which has no events here, in the next batch
+    for (const blocks of [
+      fixture.blocks.slice(0, 2),
+      fixture.blocks.slice(2),
+    ]) {
+      const ctx = createBatchContext(store, { ...fixture, blocks }, [fixture]);
+      await saveIssuanceChanges(ctx, []);
+    }
+
+    const changes = store.all(IssuanceChange);
+    assert.deepEqual(
+      changes.map((c) => [c.blockNumber, c.delta, c.minted, c.mismatch]),
+      [[101, 2n * T, 0n, true]]
+    );
+  });
+
+  // TotalIssuance grows by 2 at block 101
+  function deposit(amount: bigint) {
+    return {
+      id: "101-1",
+      kind: BalanceEventKind.Deposit,
+      account:
+        "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48",
+      amount,
+      blockNumber: 101,
+    };
+  }
+
+  async function check(amount: bigint) {
+    const store = new MemoryStore();
+    const fixture = loadFixture("calamari-v1");
+    const ctx = createBatchContext(store, fixture);
+    const read: string[] = [];
+    const getStorage = ctx._chain.getStorage.bind(ctx._chain);
+    ctx._chain.getStorage = (hash, ...args) => {
+      read.push(hash);
+      return getStorage(hash, ...args);
+    };
+
+    const explained = await saveIssuanceChanges(ctx, [deposit(amount)]);
+    const heights = new Map(fixture.blocks.map((b) => [b.hash, b.height]));
+    return {
+      changes: store.all(IssuanceChange),
+      explained,
+      read: read.map((hash) => heights.get(hash)!).sort((a, b) => a - b),
+    };
+  }
+
+  it("reads TotalIssuance once per batch when the events explain it", async () => {
+    const { changes, explained, read } = await check(2n * T);
+
+    assert.deepEqual(read, [99, 101]);
+    assert.deepEqual(
+      changes.map((c) => [c.blockNumber, c.totalIssuance, c.delta, c.mismatch]),
+      [[101, 1002n * T, 2n * T, false]]
+    );
+    assert.equal(explained.get("101-1")?.id, changes[0].id);
+  });
+
+  it("compares the blocks with events when the batch doesn't add up", async () => {
+    const { changes, read } = await check(T);
+
+    assert.deepEqual(read, [99, 100, 101]);
+    assert.deepEqual(
+      changes.map((c) => [c.blockNumber, c.delta, c.minted, c.mismatch]),
+      [[101, 2n * T, T, true]]
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { decodeHex } from "@subsquid/substrate-processor";
+import * as assert from "assert/strict";
+import {
+  Account,
+  AccountStatus,
+  BalanceEvent,
+  ChainState,
+  FeeWithdrawal,
+  IssuanceChange,
+  ProcessorState,
+  ReserveMovement,
+  Slash,
+  Transfer,
+  UndecodedEvent,
+} from "../src/model";
+import {
+  encodeId,
+  processBalances,
+  UnknownVersionError,
+} from "../src/processor";
+import { ChainFixture } from "./harness/chain";
+import {
+  createBatchContext,
+  fromSecondBlock,
+  loadFixture,
+} from "./harness/context";
+import { MemoryStore } from "./harness/store";
+
+const ALICE = encodeId(
+  decodeHex(
+    "0xd43593c715fdd31c61141abd04a99fd6822c8558854ccde39a5684e7a56da27d"
+  )
+);
+const BOB = encodeId(
+  decodeHex(
+    "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48"
+  )
+);
+const CHARLIE = encodeId(
+  decodeHex(
+    "0x90b5ab205c6974c9ea841be688864633dc9ca8a357843eeacf2314649965fe22"
+  )
+);
+
+const T = 10n ** 12n;
+
+// Batches of three runtime versions, each one starting at the block
+// before its events: V1 storage, then V3 storage, then the latest events.
+// The first batch starts at its events, bootstrapped from the block before.
+const FIXTURES = ["calamari-v1", "calamari-v3100", "calamari-v3110"];
+
+describe("processBalances", () => {
+  const store = new MemoryStore();
+
+  before(async () => {
+    const earlier: ChainFixture[] = [];
+    for (const name of FIXTURES) {
+      const fixture = loadFixture(name);
+      const batch = earlier.length == 0 ? fromSecondBlock(fixture) : fixture;
+      earlier.push(fixture);
+      await processBalances(createBatchContext(store, batch, earlier));
+    }
+  });
+
+  function account(id: string) {
+    const account = store.all(Account).find((a) => a.id == id);
+    assert.ok(account, `account ${id} is indexed`);
+    return account;
+  }
+
+  it("bootstraps accounts at the block before the first batch", () => {
+    const [state] = store.all(ProcessorState);
+    assert.equal(state.bootstrappedAt, 99);
+    assert.equal(state.network, "calamari");
+  });
+
+  it("indexes balances as of the last block", () => {
+    const alice = account(ALICE);
+    assert.equal(alice.free, 85n * T);
+    assert.equal(alice.reserved, 0n);
+    assert.equal(alice.total, 85n * T);
+    assert.equal(alice.status, AccountStatus.Active);
+
+    const charlie = account(CHARLIE);
+    assert.equal(charlie.total, 64n * T);
+    assert.equal(charlie.createdAt, 100);
+  });
+
+  it("marks emptied accounts as reaped", () => {
+    const bob = account(BOB);
+    assert.equal(bob.total, 0n);
+    assert.equal(bob.status, AccountStatus.Reaped);
+    assert.equal(bob.reapedAt, 300);
+    assert.equal(bob.rank, null);
+  });
+
+  it("records transfers and the balance ledger", () => {
+    const transfers = store.all(Transfer);
+    assert.deepEqual(
+      transfers.map((t) => [t.blockNumber, t.from.id, t.to.id, t.amount]),
+      [
+        [100, ALICE, CHARLIE, 10n * T],
+        [300, BOB, CHARLIE, 50n * T],
+      ]
+    );
+    assert.equal(store.all(BalanceEvent).length, 11);
+    assert.equal(store.all(UndecodedEvent).length, 0);
+  });
+
+  it("records slashes and fees with the account totals", () => {
+    const [slash] = store.all(Slash);
+    assert.equal(store.all(Slash).length, 1);
+    assert.equal(slash.account.id, BOB);
+    assert.equal(slash.amount, 2n * T);
+    assert.equal(account(BOB).totalSlashed, 2n * T);
+
+    const [fee] = store.all(FeeWithdrawal);
+    assert.equal(store.all(FeeWithdrawal).length, 1);
+    assert.equal(fee.account.id, ALICE);
+    assert.equal(fee.amount, 1n * T);
+    assert.equal(account(ALICE).totalFeesPaid, 1n * T);
+  });
+
+  it("tracks reserved balance across runtime upgrades", () => {
+    const movements = store.all(ReserveMovement);
+    assert.deepEqual(
+      movements.map((m) => m.reservedAfter),
+      [5n * T, 0n, 4n * T, 0n]
+    );
+    assert.equal(movements[3].destination?.id, CHARLIE);
+    assert.equal(movements[3].destinationStatus, "Free");
+  });
+
+  it("explains issuance changes with mints and burns", () => {
+    const changes = store.all(IssuanceChange);
+    assert.deepEqual(
+      changes.map((c) => [c.blockNumber, c.delta, c.minted, c.burned]),
+      [
+        [101, 2n * T, 2n * T, 0n],
+        [200, -3n * T, 0n, 3n * T],
+      ]
+    );
+    assert.ok(changes.every((c) => !c.mismatch));
+  });
+
+  it("samples the chain state and ranks holders", () => {
+    // Holders are counted before the batch refreshes its accounts
+    const states = store.all(ChainState);
+    assert.deepEqual(
+      states.map((s) => [s.blockNumber, s.totalIssuance, s.tokenHolders]),
+      [
+        [101, 1002n * T, 2],
+        [200, 999n * T, 3],
+        [300, 999n * T, 3],
+      ]
+    );
+    assert.equal(account(ALICE).rank, 1);
+    assert.equal(account(CHARLIE).rank, 2);
+  });
+
+  it("stops on events of unknown versions", async () => {
+    const fixture = loadFixture("calamari-v3110");
+    fixture.metadata.events["Balances.Transfer"] = "0".repeat(64);
+    const ctx = createBatchContext(
+      new MemoryStore(),
+      fromSecondBlock(fixture),
+      [fixture]
+    );
+
+    await assert.rejects(processBalances(ctx), UnknownVersionError);
+  });
+});
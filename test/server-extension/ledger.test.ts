@@ -0,0 +1,56 @@
+import * as assert from "assert/strict";
+import {
+  applyLedgerEvents,
+  LedgerEvent,
+} from "../../src/server-extension/ledger";
+
+const ALICE = "dmyjURuBeJwFo4Nvf2GZ8f5E2Asz98JY2d7UcaDykqYm1zpoi";
+const BOB = "dmxAK92p6kHfN2pUaZ7B4xAmDyBuHTJKEYzBTCh8mMo2Wpn7T";
+
+function event(kind: string, amount: bigint, props: Partial<LedgerEvent>) {
+  return {
+    kind,
+    account_id: ALICE,
+    counterparty_id: null,
+    amount: amount.toString(),
+    reserved: null,
+    destination_status: null,
+    block_number: 100,
+    funded: false,
+    ...props,
+  };
+}
+
+describe("applyLedgerEvents", () => {
+  it("applies the events of both sides of a move", () => {
+    const balance = applyLedgerEvents(ALICE, { free: 100n, reserved: 0n }, [
+      event("Endowed", 50n, { funded: true }),
+      event("Transfer", 50n, { account_id: BOB, counterparty_id: ALICE }),
+      event("Withdraw", 1n, {}),
+      event("Reserved", 20n, {}),
+      event("ReserveRepatriated", 5n, { counterparty_id: BOB }),
+      event("ReserveRepatriated", 7n, {
+        account_id: BOB,
+        counterparty_id: ALICE,
+        destination_status: "Reserved",
+      }),
+    ]);
+    assert.deepEqual(balance, { free: 129n, reserved: 22n });
+  });
+
+  it("slashes the free balance first", () => {
+    const balance = applyLedgerEvents(ALICE, { free: 10n, reserved: 10n }, [
+      event("Slashed", 15n, {}),
+    ]);
+    assert.deepEqual(balance, { free: 0n, reserved: 5n });
+  });
+
+  it("counts endowments that no other event funded", () => {
+    const balance = applyLedgerEvents(ALICE, { free: 0n, reserved: 0n }, [
+      event("Endowed", 50n, {}),
+      event("BalanceSet", 40n, { reserved: "2" }),
+      event("Unreserved", 2n, {}),
+    ]);
+    assert.deepEqual(balance, { free: 42n, reserved: 0n });
+  });
+});
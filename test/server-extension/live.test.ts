@@ -0,0 +1,43 @@
+import * as assert from "assert/strict";
+import type { DataSource } from "typeorm";
+import { pollNewBlocks } from "../../src/server-extension/live";
+
+describe("pollNewBlocks", () => {
+  // Every poll finds the processor one block further
+  function createDb() {
+    const db = { queries: 0, query: async () => [{ height: ++db.queries }] };
+    return db;
+  }
+
+  function poll(db: ReturnType<typeof createDb>, rows: () => number[]) {
+    return pollNewBlocks(
+      {
+        openreader: {
+          subscriptionConnection: db as unknown as DataSource,
+          subscriptionPollInterval: 5,
+        },
+      },
+      async () => rows()
+    );
+  }
+
+  it("yields the rows of new blocks", async () => {
+    const updates = poll(createDb(), () => [1]);
+    assert.deepEqual(await updates.next(), { done: false, value: [1] });
+    await updates.return!();
+  });
+
+  it("stops polling when closed while no rows match", async () => {
+    const db = createDb();
+    const updates = poll(db, () => []);
+    const pending = updates.next();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    await updates.return!();
+    assert.equal((await pending).done, true);
+
+    const queries = db.queries;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    assert.equal(db.queries, queries);
+  });
+});
@@ -0,0 +1,156 @@
+import { Server } from "@subsquid/graphql-server/lib/server";
+import * as assert from "assert/strict";
+import { execFileSync, spawn } from "child_process";
+import * as dotenv from "dotenv";
+import { createClient } from "graphql-ws";
+import * as path from "path";
+import { DataSource } from "typeorm";
+import WebSocket from "ws";
+
+dotenv.config();
+
+const ROOT = path.join(__dirname, "../..");
+const PORT = 4391;
+
+const BOB =
+  "0x8eaf04151687736326c9fea17e25fc5287613693c912909cb226aa4794f26a48";
+const T = 10n ** 12n;
+
+// Runs the processor and the GraphQL server against TEST_DB_NAME, which is
+// wiped first, and checks what subscribers get pushed. Without it, or the
+// rest of the DB_* variables for reaching it, the suite is skipped.
+describe("subscriptions", function () {
+  this.timeout(180_000);
+
+  let server: { close(): Promise<void> } | undefined;
+  let client: ReturnType<typeof createClient> | undefined;
+
+  before(async function () {
+    const database = process.env.TEST_DB_NAME;
+    if (!database) this.skip();
+
+    const env = { ...process.env, DB_NAME: database, GQL_PORT: String(PORT) };
+    Object.assign(process.env, env);
+
+    await resetDatabase(database);
+    execFileSync("npm", ["run", "build"], { cwd: ROOT, env, stdio: "ignore" });
+    execFileSync("npx", ["squid-typeorm-migration", "apply"], {
+      cwd: ROOT,
+      env,
+      stdio: "ignore",
+    });
+
+    server = await new Server({
+      dir: ROOT,
+      subscriptions: true,
+      subscriptionPollInterval: 100,
+    }).start();
+    client = createClient({
+      webSocketImpl: WebSocket,
+      url: `ws://localhost:${PORT}/graphql`,
+    });
+  });
+
+  after(async () => {
+    await client?.dispose();
+    await server?.close();
+  });
+
+  it("pushes the data of every batch the processor commits", async () => {
+    const transfers = subscribe(
+      `subscription { newTransfers { blockNumber amount } }`
+    );
+    const balances = subscribe(
+      `subscription($accounts: [String!]!) {
+        balanceChanges(accounts: $accounts) { blockNumber total }
+      }`,
+      { accounts: [BOB] }
+    );
+    const states = subscribe(
+      `subscription { newChainStates { blockNumber tokenHolders } }`
+    );
+    // Subscriptions start from the height at the time of the first poll
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    await runProcessor(["calamari-v1", "calamari-v3100", "calamari-v3110"]);
+    await waitFor(() => states.length == 3 && transfers.length == 2);
+    await waitFor(() => balances.some((b) => b.blockNumber == 300));
+
+    assert.deepEqual(
+      transfers.map((t) => [t.blockNumber, BigInt(t.amount)]),
+      [
+        [100, 10n * T],
+        [300, 50n * T],
+      ]
+    );
+    assert.deepEqual(
+      balances.map((b) => [b.blockNumber, BigInt(b.total)]),
+      [
+        [99, 50n * T],
+        [101, 52n * T],
+        [200, 50n * T],
+        [300, 0n],
+      ]
+    );
+    assert.deepEqual(
+      states.map((s) => s.blockNumber),
+      [101, 200, 300]
+    );
+  });
+
+  // Collects every row pushed for the subscription
+  function subscribe(query: string, variables?: Record<string, unknown>) {
+    const rows: any[] = [];
+    client!.subscribe(
+      { query, variables },
+      {
+        next: ({ data, errors }) => {
+          assert.equal(errors, undefined);
+          rows.push(...(Object.values(data!)[0] as any[]));
+        },
+        error: (e) => assert.fail(String(e)),
+        complete: () => {},
+      }
+    );
+    return rows;
+  }
+});
+
+async function resetDatabase(database: string) {
+  const db = new DataSource({
+    type: "postgres",
+    host: process.env.DB_HOST || "localhost",
+    port: Number(process.env.DB_PORT || 5432),
+    username: process.env.DB_USER || "postgres",
+    password: process.env.DB_PASS || "postgres",
+    database,
+  });
+  await db.initialize();
+  await db.query(`DROP SCHEMA IF EXISTS squid_processor CASCADE`);
+  await db.query(`DROP SCHEMA public CASCADE`);
+  await db.query(`CREATE SCHEMA public`);
+  await db.destroy();
+}
+
+function runProcessor(fixtures: string[]) {
+  const child = spawn(
+    process.execPath,
+    ["-r", "ts-node/register/transpile-only", "test/harness/replay.ts"].concat(
+      fixtures
+    ),
+    { cwd: ROOT, stdio: ["ignore", "ignore", "inherit"] }
+  );
+  return new Promise<void>((resolve, reject) =>
+    child.on("exit", (code) =>
+      code == 0 ? resolve() : reject(new Error(`processor exited with ${code}`))
+    )
+  );
+}
+
+async function waitFor(condition: () => boolean, timeout = 10_000) {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) assert.fail("nothing pushed in time");
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}